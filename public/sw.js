@@ -0,0 +1,118 @@
+// Service worker for the map player.
+//
+// The app itself (index.html and the built scripts and styles) is cached as it
+// loads, so a map that was opened once can be opened again without a network.
+//
+// Files of maps saved for offline use are put into MEDIA_CACHE by the page (see
+// src/utils/offline.ts). Every load hands out freshly signed storage URLs, so
+// they are keyed by the URL without its signing token, and requests for them are
+// answered from there, including the byte ranges audio elements ask for.
+
+const APP_CACHE = "soundmap-app-v1";
+const MEDIA_CACHE = "soundmap-media-v1"; // Also named in src/utils/offline.ts
+const MAPS_CACHE = "soundmap-maps-v1";   // Also named in src/utils/offline.ts
+const SIGNED_OBJECT_PATH = "/storage/v1/object/sign/";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then((cache) => cache.add(self.registration.scope))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [APP_CACHE, MEDIA_CACHE, MAPS_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith("soundmap-") && !current.includes(name))
+          .map((name) => caches.delete(name)),
+      ))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.pathname.includes(SIGNED_OBJECT_PATH)) {
+    event.respondWith(fromMediaCache(request, url));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, url));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Pages: the newest from the network, the last one seen when offline. Stored
+// without the query string, which only says which map to open.
+async function networkFirst(request, url) {
+  const cache = await caches.open(APP_CACHE);
+  const key = url.origin + url.pathname;
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(key, response.clone());
+    return response;
+  } catch (err) {
+    const cached = (await cache.match(key)) || (await cache.match(self.registration.scope));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Built assets have hashed names, so a cached copy is never stale for long
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(APP_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request).then((response) => {
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  });
+
+  if (!cached) return network;
+  network.catch(() => {});
+  return cached;
+}
+
+// Files that weren't saved for offline use go straight to the network
+async function fromMediaCache(request, url) {
+  const cached = await caches.match(url.origin + url.pathname, { cacheName: MEDIA_CACHE });
+  if (!cached) return fetch(request);
+
+  const range = request.headers.get("range");
+  return range ? rangeResponse(cached, range) : cached;
+}
+
+// Safari only plays audio that answers range requests with 206 Partial Content
+async function rangeResponse(response, range) {
+  const body = await response.arrayBuffer();
+  const size = body.byteLength;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+
+  let start = 0;
+  let end = size - 1;
+  if (match && match[1]) {
+    start = Number(match[1]);
+    if (match[2]) end = Math.min(Number(match[2]), size - 1);
+  } else if (match && match[2]) {
+    start = Math.max(0, size - Number(match[2])); // "bytes=-500": the last 500 bytes
+  }
+
+  if (!match || start > end) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+  }
+
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": response.headers.get("Content-Type") || "application/octet-stream",
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Content-Length": String(end - start + 1),
+      "Accept-Ranges": "bytes",
+    },
+  });
+}
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Flag, Play, Check, X, VolumeX, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from './auth/AuthView';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { listReports, getReportAudioUrl, resolveReport } from '../utils/api';
+import type { AudioReport, ReportStatus } from '../utils/api';
+
+const STATUS_LABELS: Record<ReportStatus | 'all', string> = {
+  pending: 'Pending',
+  actioned: 'Actioned',
+  dismissed: 'Dismissed',
+  all: 'All reports',
+};
+
+const getToken = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('No active session');
+  return session.access_token;
+};
+
+// Admin screen for triaging audio reports sent from shared maps
+export const ModerationQueue = () => {
+  const [status, setStatus] = useState<ReportStatus | 'all'>('pending');
+  const [reports, setReports] = useState<AudioReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [listening, setListening] = useState<{ id: string; url: string } | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReports(await listReports(await getToken(), status));
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not load reports');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleListen = async (report: AudioReport) => {
+    setBusyId(report.id);
+    try {
+      setListening({ id: report.id, url: await getReportAudioUrl(await getToken(), report.id) });
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not load the reported audio');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResolve = async (report: AudioReport, resolution: 'dismissed' | 'actioned', disableAudio = false) => {
+    setBusyId(report.id);
+    try {
+      await resolveReport(await getToken(), report.id, resolution, disableAudio);
+      toast.success(disableAudio ? 'Audio disabled and report closed' : `Report ${resolution}`);
+      if (listening?.id === report.id) setListening(null);
+      await load();
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not update the report');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Flag className="w-5 h-5 text-red-600" />
+              Moderation Queue
+            </CardTitle>
+            <CardDescription>Audio reported by listeners of shared maps.</CardDescription>
+          </div>
+          <Select value={status} onValueChange={(v) => setStatus(v as ReportStatus | 'all')}>
+            <SelectTrigger className="w-36" aria-label="Filter reports by status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && reports.length === 0 && (
+          <div className="flex justify-center py-6 text-slate-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+        {!isLoading && reports.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-6">No {status === 'all' ? '' : STATUS_LABELS[status].toLowerCase() + ' '}reports.</p>
+        )}
+        {reports.map(report => (
+          <div key={report.id} className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900">{report.reason}</p>
+                <p className="text-xs text-slate-500 truncate">
+                  {report.projectTitle ?? 'Deleted project'} · {report.hotspotName || (report.projectTitle ? 'Deleted zone' : '')}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {new Date(report.timestamp).toLocaleString()}
+                  {report.resolvedBy && ` · ${report.status} by ${report.resolvedBy}`}
+                </p>
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                <Badge variant={report.status === 'pending' ? 'destructive' : 'secondary'}>{STATUS_LABELS[report.status]}</Badge>
+                {report.audioDisabled && <Badge variant="outline">Audio disabled</Badge>}
+              </div>
+            </div>
+
+            {listening?.id === report.id && (
+              <audio controls autoPlay src={listening.url} className="w-full h-8" />
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" disabled={!report.hasAudio || busyId === report.id} onClick={() => handleListen(report)}>
+                <Play className="w-3 h-3 mr-2" /> Listen
+              </Button>
+              {report.status === 'pending' && (
+                <>
+                  <Button size="sm" variant="outline" disabled={busyId === report.id} onClick={() => handleResolve(report, 'dismissed')}>
+                    <X className="w-3 h-3 mr-2" /> Dismiss
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={busyId === report.id} onClick={() => handleResolve(report, 'actioned')}>
+                    <Check className="w-3 h-3 mr-2" /> Mark Actioned
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                    disabled={!report.hasAudio || report.audioDisabled || busyId === report.id}
+                    onClick={() => handleResolve(report, 'actioned', true)}
+                  >
+                    <VolumeX className="w-3 h-3 mr-2" /> Disable Audio
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -68,6 +68,8 @@ export const ReportAudioDialog = ({
           setSubmitted(false);
           setSelectedReason('');
         }, 2000);
+      } else if (response.status === 429) {
+        toast.error('Too many reports sent. Please try again later.');
       } else {
         toast.error('Failed to submit report');
       }
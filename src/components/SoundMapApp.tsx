@@ -1,5 +1,5 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Upload, Play, Pause, Music, X, Edit3, Volume2, Trash2, Plus, ArrowLeft, Image as ImageIcon, MoreVertical, Repeat, Check, MoveHorizontal, Settings2, ChevronUp, ChevronDown, User as UserIcon, Share2, Copy, ExternalLink, Loader2, AlertTriangle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Upload, Play, Pause, Music, X, Edit3, Volume2, Trash2, Plus, ArrowLeft, Image as ImageIcon, MoreVertical, Repeat, Check, MoveHorizontal, Settings2, ChevronUp, ChevronDown, User as UserIcon, Share2, Copy, ExternalLink, Loader2, AlertTriangle, Vibrate, Speech, Radar, Hand, Layers, Spline, PenLine, Square, Circle, Pentagon, Undo2, Redo2, Lock, Globe, Download, FileUp, LayoutTemplate, Signpost } from 'lucide-react';
 import { AuthView, supabase } from './auth/AuthView';
 import { ProfileView } from './auth/ProfileView';
 import { InteractiveTour, TourStep } from './InteractiveTour';
@@ -8,7 +8,8 @@ import { NarrationModal } from './NarrationModal';
 import { Button } from "./ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "./ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "./ui/alert-dialog";
-import { initServer, loadProjects, saveProjects, uploadFile, getSignedUrl, getSharedProject, getUserPreferences, saveUserPreferences } from '../utils/api';
+import { initServer, loadProjects, saveProject, patchProject, deleteProject, ProjectConflictError, copyProjectFiles, uploadFile, getSignedUrl, getSharedProject, AccessCodeError, NotPublishedError, getUserPreferences, saveUserPreferences, createShareLink, listShareLinks, updateShareLink, revokeShareLink, rotateShareLink, publishProject, listPublications, listTemplates, saveTemplate, deleteTemplate } from '../utils/api';
+import type { ShareLink, Publication, ProjectTemplate } from '../utils/api';
 import { Card, CardContent } from "./ui/card";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -17,6 +18,29 @@ import { Switch } from "./ui/switch";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "./ui/dropdown-menu";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerDescription, DrawerTrigger } from "./ui/drawer";
 import { toast } from "sonner";
+import { polygonCentroid, distanceToPolygon, sortByReadingOrder, findNearestInDirection, polygonBounds, clampToImage, clampTranslation, translatePolygon, scalePolygon, rectanglePoints, ellipsePoints, simplifyPath } from '../utils/geometry';
+import type { Point, Direction } from '../utils/geometry';
+import { HAPTIC_PRESETS, DEFAULT_HAPTICS, EDGE_MARGIN, isHapticsSupported, vibrate, resolveHapticPreset } from '../utils/haptics';
+import type { HapticPresetId, HapticSettings, HotspotHaptics } from '../utils/haptics';
+import { SPEECH_LANGUAGES, DEFAULT_SPEECH, LONG_PRESS_MS, isSpeechSupported, loadVoices, speak, cancelSpeech } from '../utils/speech';
+import type { SpeechMode, SpeechSettings } from '../utils/speech';
+import { createSpatialPanner, setListenerPosition } from '../utils/spatialAudio';
+import { OVERLAP_MODES, audibleZonesAt, findContainingZone, findContainingZones, findOverlappingZone, layerDepth, moveLayer, setZoneParent, removeZone, validateZoneLayering, getDescendantIds, type OverlapMode } from '../utils/layers';
+import { createHistory, recordChange, undoChange, redoChange, type History } from '../utils/history';
+import { FALLOFF_CURVES, MAX_PROXIMITY_RADIUS, proximityGain } from '../utils/proximity';
+import { CURRENT_SCHEMA_VERSION, migrateProject, ProjectSchemaError } from '../supabase/functions/_shared/projectSchema';
+import { MAIN_SCENE_ID, MAX_SCENES, allHotspots, listScenes, sceneView, applySceneView, updateScenes, updateScenesAsync } from '../supabase/functions/_shared/scenes';
+import type { FalloffCurve } from '../utils/proximity';
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Progress } from "./ui/progress";
+import { isOfflineSupported, saveMapOffline, getOfflineMap, getOfflineStatus, removeOfflineMap } from '../utils/offline';
+import type { OfflineStatus, OfflineProgress } from '../utils/offline';
+import { BUNDLE_EXTENSION, BundleError, exportableProject, exportProjectBundle, importProjectBundle } from '../utils/bundle';
+import type { BundleProgress } from '../utils/bundle';
+import { exportStaticSite } from '../utils/staticExport';
+import { STARTER_TEMPLATES } from '../utils/templates';
+import type { StarterTemplate } from '../utils/templates';
 
 // ---------------------------------------------------------------------------
 // TYPES
@@ -41,7 +65,7 @@ const sanitizeFilename = (filename: string): string => {
   return sanitized + ext;
 };
 
-export type Point = { x: number; y: number };
+export type { Point };
 
 export type AudioSettings = {
   volume: number; // 0 to 1
@@ -49,6 +73,8 @@ export type AudioSettings = {
   loop: boolean;
   fadeIn: number;
   fadeOut: number;
+  proximityRadius?: number;    // % of the image outside the zone where it is already audible (0 = off)
+  proximityFalloff?: FalloffCurve;
 };
 
 export type Hotspot = {
@@ -57,9 +83,20 @@ export type Hotspot = {
   audioFile: File | null;
   audioUrl: string | null;
   audioPath?: string | null;
+  audioDisabled?: boolean; // Switched off by a moderator after a report; set by the server only
   name: string;
   color: string;
   settings: AudioSettings;
+  haptics?: HotspotHaptics;
+  spokenLabel?: string;   // Short text spoken when the zone is entered
+  description?: string;   // Longer text spoken on long-press
+  speechMode?: SpeechMode;
+  parentId?: string | null;   // Zone this one is nested inside
+  overlapMode?: OverlapMode;  // Where it covers other zones: sound alone or mix with them
+  targetSceneId?: string | null;  // Scene the zone leads to when activated
+  transitionAudioFile?: File | null;
+  transitionAudioUrl?: string | null;
+  transitionAudioPath?: string | null; // Played while going to the target scene
 };
 
 export type GlobalChannel = {
@@ -71,7 +108,19 @@ export type GlobalChannel = {
   settings: AudioSettings;
 };
 
+// A scene after the first; the first one is the project itself (see scenes.ts)
+export type Scene = {
+  id: string;
+  name: string;
+  imageFile: File | null;
+  imageUrl: string | null;
+  imagePath?: string | null;
+  hotspots: Hotspot[];
+  globalChannels: GlobalChannel[];
+};
+
 export type Project = {
+  schemaVersion: number;  // Document format; see projectSchema.ts
   id: string;
   title: string;
   imageFile: File | null;
@@ -83,11 +132,29 @@ export type Project = {
   introAudioUrl: string | null;
   introAudioPath?: string | null;
   introAudioLoop: boolean;
+  haptics?: HapticSettings;
+  speech?: SpeechSettings;
+  spatialAudio?: boolean; // Place zones with HRTF relative to the finger instead of fixed pan
+  maxVoices?: number;     // Cap on zones sounding at once (multi-touch)
+  sceneName?: string;     // Name of the first scene
+  scenes?: Scene[];       // Further scenes
   createdAt: number;
+  version?: number;       // Server revision this copy is based on (set by the server)
+  updatedAt?: string;     // When that revision was saved
 };
 
 type ViewMode = 'gallery' | 'editor' | 'player' | 'profile';
 
+// What an uploaded or picked sound is for: a zone's audio, a channel, or a zone's transition sound
+type UploadTargetType = 'hotspot' | 'channel' | 'transition';
+
+// Zones that may sound at once when several fingers explore the map together
+const DEFAULT_MAX_VOICES = 4;
+const MAX_VOICES_LIMIT = 8;
+
+// Transition sounds play once, centred, when a zone leads to another scene
+const TRANSITION_SETTINGS: AudioSettings = { volume: 1, pan: 0, loop: false, fadeIn: 0, fadeOut: 0.3 };
+
 const COLORS = [
   "#4f46e5", // Indigo
   "#0ea5e9", // Sky
@@ -176,13 +243,57 @@ const ColorPicker = ({ value, onChange }: { value: string, onChange: (color: str
     </div>
 );
 
+const HapticPatternPicker = ({ label, value, onChange, allowInherit }: { label: string, value: HapticPresetId | undefined, onChange: (preset: HapticPresetId | undefined) => void, allowInherit?: boolean }) => (
+    <div className="space-y-2">
+        <Label className="text-xs text-slate-500 font-medium">{label}</Label>
+        <div className="flex items-center gap-2">
+            <Select
+                value={value ?? 'inherit'}
+                onValueChange={(v) => onChange(v === 'inherit' ? undefined : v as HapticPresetId)}
+            >
+                <SelectTrigger className="h-8 text-sm flex-1" aria-label={label}>
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {allowInherit && <SelectItem value="inherit">Project default</SelectItem>}
+                    {(Object.keys(HAPTIC_PRESETS) as HapticPresetId[]).map(id => (
+                        <SelectItem key={id} value={id}>{HAPTIC_PRESETS[id].label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Button
+                size="icon"
+                variant="outline"
+                className="h-8 w-8 shrink-0"
+                disabled={!isHapticsSupported() || !value || value === 'none'}
+                onClick={() => vibrate(value)}
+                aria-label={`Preview ${label}`}
+            >
+                <Vibrate className="w-4 h-4" />
+            </Button>
+        </div>
+    </div>
+);
+
 // ---------------------------------------------------------------------------
 // AUDIO ENGINE HOOK
 // ---------------------------------------------------------------------------
 
+const useSpeechVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVoices().then(v => { if (!cancelled) setVoices(v); });
+    return () => { cancelled = true; };
+  }, []);
+
+  return voices;
+};
+
 const useAudioEngine = () => {
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourcesRef = useRef<Map<string, { source: MediaElementAudioSourceNode, gain: GainNode, panner: StereoPannerNode, audio: HTMLAudioElement, fadeOutTimer?: NodeJS.Timeout, fadeOutDuration: number }>>(new Map());
+  const sourcesRef = useRef<Map<string, { source: MediaElementAudioSourceNode, gain: GainNode, proximity: GainNode, panner: StereoPannerNode | PannerNode, audio: HTMLAudioElement, fadeOutTimer?: NodeJS.Timeout, fadeOutDuration: number }>>(new Map());
 
   useEffect(() => {
     return () => {
@@ -210,14 +321,15 @@ const useAudioEngine = () => {
     return audioContextRef.current;
   };
 
-  const play = (id: string, url: string, settings: AudioSettings) => {
+  // `position` switches the source to an HRTF PannerNode placed at that image point
+  const play = (id: string, url: string, settings: AudioSettings, position?: Point) => {
     const ctx = getContext();
-    const fadeDuration = settings.fadeIn ?? 0.3;
+    const fadeDuration = settings.fadeIn;
     
     const existing = sourcesRef.current.get(id);
     if (existing) {
         // Update fade out duration
-        existing.fadeOutDuration = settings.fadeOut ?? 0.3;
+        existing.fadeOutDuration = settings.fadeOut;
 
         if (existing.fadeOutTimer) {
             clearTimeout(existing.fadeOutTimer);
@@ -235,13 +347,21 @@ const useAudioEngine = () => {
 
     const source = ctx.createMediaElementSource(audio);
     const gain = ctx.createGain();
-    const panner = ctx.createStereoPanner();
+    // Separate stage so distance falloff never fights the fade envelope on `gain`
+    const proximity = ctx.createGain();
+    let panner: StereoPannerNode | PannerNode;
+    if (position) {
+      panner = createSpatialPanner(ctx, position);
+    } else {
+      panner = ctx.createStereoPanner();
+      panner.pan.value = settings.pan;
+    }
 
     source.connect(gain);
-    gain.connect(panner);
+    gain.connect(proximity);
+    proximity.connect(panner);
     panner.connect(ctx.destination);
 
-    panner.pan.value = settings.pan;
     gain.gain.setValueAtTime(0, ctx.currentTime);
     gain.gain.linearRampToValueAtTime(settings.volume, ctx.currentTime + fadeDuration);
 
@@ -249,7 +369,7 @@ const useAudioEngine = () => {
     if (playPromise !== undefined) {
       playPromise.catch(e => console.error("Playback failed:", e));
     }
-    sourcesRef.current.set(id, { source, gain, panner, audio, fadeOutDuration: settings.fadeOut ?? 0.3 });
+    sourcesRef.current.set(id, { source, gain, proximity, panner, audio, fadeOutDuration: settings.fadeOut });
 
     audio.onended = () => {
       if (!settings.loop) {
@@ -278,6 +398,7 @@ const useAudioEngine = () => {
           try {
             node.source.disconnect();
             node.gain.disconnect();
+            node.proximity.disconnect();
             node.panner.disconnect();
           } catch (e) {}
           sourcesRef.current.delete(id);
@@ -306,6 +427,7 @@ const useAudioEngine = () => {
                 try {
                     node.source.disconnect();
                     node.gain.disconnect();
+                    node.proximity.disconnect();
                     node.panner.disconnect();
                 } catch (e) {}
                 sourcesRef.current.delete(id);
@@ -318,81 +440,348 @@ const useAudioEngine = () => {
     const node = sourcesRef.current.get(id);
     if (node) {
       // Update the stored fade out duration
-      node.fadeOutDuration = settings.fadeOut ?? 0.3;
+      node.fadeOutDuration = settings.fadeOut;
 
       if (!node.fadeOutTimer) {
         const ctx = getContext();
         node.gain.gain.cancelScheduledValues(ctx.currentTime);
         node.gain.gain.linearRampToValueAtTime(settings.volume, ctx.currentTime + 0.1);
         
-        node.panner.pan.value = settings.pan;
+        if ('pan' in node.panner) node.panner.pan.value = settings.pan;
         node.audio.loop = settings.loop;
       }
     }
   };
 
-  return { play, stop, stopAll, updateSettings };
+  // Moves the listener (the visitor's finger or pointer) for spatial sources
+  const setListener = (point: Point) => {
+    setListenerPosition(getContext(), point);
+  };
+
+  // Scales a source by a 0-1 distance factor, smoothed to avoid zipper noise
+  const setProximity = (id: string, level: number) => {
+    const node = sourcesRef.current.get(id);
+    if (node) {
+      const ctx = getContext();
+      node.proximity.gain.setTargetAtTime(level, ctx.currentTime, 0.05);
+    }
+  };
+
+  return { play, stop, stopAll, updateSettings, setListener, setProximity };
 };
 
 // ---------------------------------------------------------------------------
 // SETTINGS PANEL CONTENT (REUSABLE)
 // ---------------------------------------------------------------------------
 
-const ShareDialogContent = ({ session, project }: { session: any, project: Project }) => {
-    const [link, setLink] = useState<string | null>(null);
+const SHARE_EXPIRY_OPTIONS = [
+    { value: 'never', label: 'Never expires', hours: null },
+    { value: '24', label: 'Expires in 1 day', hours: 24 },
+    { value: '168', label: 'Expires in 7 days', hours: 168 },
+    { value: '720', label: 'Expires in 30 days', hours: 720 },
+];
+
+const shareUrl = (shortId: string) => `${window.location.origin}?s=${shortId}`;
+
+const ShareDialogContent = ({ session, project, publications }: { session: any, project: Project, publications: Publication[] }) => {
+    const [link, setLink] = useState<ShareLink | null>(null);
+    const [allLinks, setAllLinks] = useState<ShareLink[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [codeDraft, setCodeDraft] = useState('');
+    const token = session?.access_token;
+
+    const refreshLinks = () => {
+        listShareLinks(token, project.id)
+            .then(setAllLinks)
+            .catch(err => console.error("Error loading share links:", err));
+    };
 
+    // Opening the dialog reuses the project's active link instead of minting one
     useEffect(() => {
         setIsLoading(true);
-        import('../utils/api').then(({ createShareLink }) => {
-            createShareLink(session?.access_token, project.id).then((data: any) => {
-                setLink(`${window.location.origin}?s=${data.shortId}`);
-            })
+        createShareLink(token, project.id)
+            .then(setLink)
+            .then(refreshLinks)
             .catch(err => console.error("Error creating share link:", err))
             .finally(() => setIsLoading(false));
-        });
-    }, [session?.access_token, project.id]);
+    }, [token, project.id]);
 
-    if (isLoading || !link) {
+    const runLinkAction = async (action: () => Promise<ShareLink | null>, success?: string) => {
+        setIsBusy(true);
+        try {
+            setLink(await action());
+            if (success) toast.success(success);
+            refreshLinks();
+            return true;
+        } catch (err) {
+            console.error(err);
+            toast.error('Could not update the share link. Please try again.', { description: (err as Error).message });
+            return false;
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (isLoading) {
         return <div className="flex items-center justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-indigo-600" /></div>;
     }
 
+    if (!link) {
+        return (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+                <p className="text-sm text-slate-500">This project has no active share link.</p>
+                <Button size="sm" disabled={isBusy} onClick={() => runLinkAction(() => createShareLink(token, project.id))}>
+                    <Share2 className="w-4 h-4 mr-2" /> Create Link
+                </Button>
+            </div>
+        );
+    }
+
+    const url = shareUrl(link.shortId);
+    const otherActive = allLinks.filter(l => l.status === 'active' && l.shortId !== link.shortId);
+    // A time-limited link shows its end date through the placeholder
+    const expiryValue = link.expiresAt ? '' : 'never';
+
     return (
-        <div className="flex items-center space-x-2 mt-4">
-             <div className="grid flex-1 gap-2">
-                <label htmlFor="link" className="sr-only">Link</label>
-                <input 
-                    id="link" 
-                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                    readOnly 
-                    value={link} 
-                />
+        <div className="space-y-4 mt-4">
+            <div className="flex items-center space-x-2">
+                <div className="grid flex-1 gap-2">
+                    <label htmlFor="link" className="sr-only">Link</label>
+                    <input 
+                        id="link" 
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                        readOnly 
+                        value={url} 
+                    />
+                </div>
+                <Button size="sm" className="px-3" onClick={async () => {
+                     try {
+                        await navigator.clipboard.writeText(url);
+                     } catch (e) {
+                        const input = document.getElementById('link') as HTMLInputElement;
+                        if (input) {
+                            input.select();
+                            document.execCommand('copy');
+                        }
+                     }
+                }}>
+                    <span className="sr-only">Copy</span>
+                    <Copy className="h-4 w-4" />
+                </Button>
+                 <Button type="button" size="sm" variant="outline" className="px-3" onClick={() => {
+                     window.open(url, '_blank');
+                }}>
+                    <ExternalLink className="h-4 w-4" />
+                </Button>
             </div>
-            <Button size="sm" className="px-3" onClick={async () => {
-                 try {
-                    await navigator.clipboard.writeText(link);
-                 } catch (e) {
-                    const input = document.getElementById('link') as HTMLInputElement;
-                    if (input) {
-                        input.select();
-                        document.execCommand('copy');
-                    }
-                 }
-            }}>
-                <span className="sr-only">Copy</span>
-                <Copy className="h-4 w-4" />
-            </Button>
-             <Button type="button" size="sm" variant="outline" className="px-3" onClick={() => {
-                 window.open(link, '_blank');
-            }}>
-                <ExternalLink className="h-4 w-4" />
-            </Button>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Select
+                    value={expiryValue}
+                    onValueChange={(v) => {
+                        const option = SHARE_EXPIRY_OPTIONS.find(o => o.value === v);
+                        if (option) runLinkAction(() => updateShareLink(token, link.shortId, { expiresInHours: option.hours }));
+                    }}
+                    disabled={isBusy}
+                >
+                    <SelectTrigger className="h-8 w-44 text-sm" aria-label="Link expiry">
+                        <SelectValue placeholder={link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}` : 'Never expires'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {SHARE_EXPIRY_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <div className="flex-1" />
+                <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isBusy}
+                    onClick={() => runLinkAction(() => rotateShareLink(token, link.shortId), 'New link created. The old link no longer works.')}
+                >
+                    <Repeat className="w-3.5 h-3.5 mr-2" /> New Link
+                </Button>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    disabled={isBusy}
+                    onClick={() => runLinkAction(async () => { await revokeShareLink(token, link.shortId); return null; }, 'Link revoked')}
+                >
+                    <X className="w-3.5 h-3.5 mr-2" /> Revoke
+                </Button>
+            </div>
+
+            <div className="border-t pt-3 space-y-2">
+                <Label className="text-xs text-slate-500 font-medium">Visitors See</Label>
+                {publications.length === 0 ? (
+                    <p className="text-xs text-slate-600">
+                        This map hasn't been published, so its links don't open yet. Publish it to choose what visitors see.
+                    </p>
+                ) : (
+                    <Select
+                        value={link.publicationId ?? 'latest'}
+                        onValueChange={(v) => runLinkAction(() => updateShareLink(token, link.shortId, { publicationId: v === 'latest' ? null : v }))}
+                        disabled={isBusy}
+                    >
+                        <SelectTrigger className="h-8 text-sm" aria-label="Published version shown by this link">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="latest">Latest published version</SelectItem>
+                            {publications.map(p => (
+                                <SelectItem key={p.id} value={p.id}>
+                                    Version {p.number} · {new Date(p.createdAt).toLocaleDateString()}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+            </div>
+
+            <form
+                className="border-t pt-3 space-y-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    runLinkAction(() => updateShareLink(token, link.shortId, { accessCode: codeDraft }), 'Access code saved')
+                        .then(saved => { if (saved) setCodeDraft(''); });
+                }}
+            >
+                <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="share-access-code" className="text-xs text-slate-500 font-medium">Access Code</Label>
+                    {link.protected && (
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 text-xs"
+                            disabled={isBusy}
+                            onClick={() => runLinkAction(() => updateShareLink(token, link.shortId, { accessCode: null }), 'Access code removed')}
+                        >
+                            Remove Code
+                        </Button>
+                    )}
+                </div>
+                {link.protected && (
+                    <p className="flex items-center gap-1.5 text-xs text-slate-600">
+                        <Lock className="w-3 h-3" /> Visitors must enter the code before the map opens.
+                    </p>
+                )}
+                <div className="flex gap-2">
+                    <Input
+                        id="share-access-code"
+                        className="h-8 text-sm"
+                        autoComplete="off"
+                        minLength={4}
+                        maxLength={64}
+                        placeholder={link.protected ? 'New code' : 'Optional, e.g. for a class or exhibit'}
+                        value={codeDraft}
+                        onChange={(e) => setCodeDraft(e.target.value)}
+                    />
+                    <Button type="submit" size="sm" variant="outline" disabled={isBusy || codeDraft.trim().length < 4}>
+                        {link.protected ? 'Change Code' : 'Set Code'}
+                    </Button>
+                </div>
+                <p className="text-xs text-slate-400">Give the code to your visitors separately from the link.</p>
+            </form>
+
+            {otherActive.length > 0 && (
+                <div className="border-t pt-3 space-y-2">
+                    <Label className="text-xs text-slate-500 font-medium">Other Active Links</Label>
+                    {otherActive.map(other => (
+                        <div key={other.shortId} className="flex items-center justify-between gap-2 text-sm">
+                            <span className="flex items-center gap-1.5 truncate text-slate-700 font-mono">
+                                {other.protected && <Lock className="w-3 h-3 shrink-0" aria-label="Needs access code" />}
+                                {other.shortId}
+                            </span>
+                            <span className="text-xs text-slate-400 shrink-0">
+                                {other.expiresAt ? `Expires ${new Date(other.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                            </span>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 text-red-600 hover:text-red-700"
+                                disabled={isBusy}
+                                onClick={() => runLinkAction(async () => { await revokeShareLink(token, other.shortId); return link; }, 'Link revoked')}
+                            >
+                                Revoke
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SpeechSettingsSection = ({ project, onUpdate }: { project: Project, onUpdate: (p: Project | ((prev: Project) => Project)) => void }) => {
+    const voices = useSpeechVoices();
+    const speech = { ...DEFAULT_SPEECH, ...project.speech };
+    const languagePrefix = speech.lang.split('-')[0];
+    const matchingVoices = voices.filter(v => v.lang.replace('_', '-').startsWith(languagePrefix));
+
+    const updateSpeech = (changes: Partial<SpeechSettings>) => {
+        onUpdate(p => ({ ...p, speech: { ...DEFAULT_SPEECH, ...p.speech, ...changes } }));
+    };
+
+    return (
+        <div className="space-y-4 mb-6">
+            <Label className="text-slate-500 text-xs uppercase tracking-wider font-bold">Spoken Labels</Label>
+            {!isSpeechSupported() ? (
+                <p className="text-xs text-slate-400">This browser does not support speech synthesis.</p>
+            ) : (
+                <div className="bg-white border rounded-lg p-3 shadow-sm space-y-4">
+                    <div className="space-y-2">
+                        <Label className="text-xs text-slate-500 font-medium">Language</Label>
+                        <Select value={speech.lang} onValueChange={(v) => updateSpeech({ lang: v, voiceURI: null })}>
+                            <SelectTrigger className="h-8 text-sm" aria-label="Speech language">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {SPEECH_LANGUAGES.map(l => (
+                                    <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label className="text-xs text-slate-500 font-medium">Voice</Label>
+                        <Select value={speech.voiceURI ?? 'default'} onValueChange={(v) => updateSpeech({ voiceURI: v === 'default' ? null : v })}>
+                            <SelectTrigger className="h-8 text-sm" aria-label="Speech voice">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="default">Browser default</SelectItem>
+                                {matchingVoices.map(v => (
+                                    <SelectItem key={v.voiceURI} value={v.voiceURI}>{v.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-3">
+                        <div className="flex justify-between text-xs text-slate-500 font-medium">
+                            <span>Speech Rate</span>
+                            <span>{speech.rate.toFixed(1)}×</span>
+                        </div>
+                        <Slider
+                            value={[speech.rate]}
+                            min={0.5} max={2} step={0.1}
+                            onValueChange={([v]) => updateSpeech({ rate: v })}
+                            className="[&_.bg-primary]:bg-slate-700"
+                        />
+                    </div>
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => speak(project.title, project.speech)}>
+                        <Play className="w-3 h-3 mr-2" /> Test Voice
+                    </Button>
+                </div>
+            )}
         </div>
     );
 };
 
 const SettingsPanelContent = ({ 
     project, 
+    sceneId,
     selectedHotspotId, 
     onUpdate, 
     setSelectedHotspotId,
@@ -415,12 +804,13 @@ const SettingsPanelContent = ({
     setIsCanvasHighlighted
 }: {
     project: Project;
+    sceneId: string;
     selectedHotspotId: string | null;
     onUpdate: (p: Project | ((prev: Project) => Project)) => void;
     setSelectedHotspotId: (id: string | null) => void;
     addGlobalChannel: () => void;
     session: any;
-    openUploadModal: (type: 'hotspot' | 'channel', id: string) => void;
+    openUploadModal: (type: UploadTargetType, id: string) => void;
     previewingChannelId: string | null;
     toggleChannelPreview: (channel: GlobalChannel) => void;
     collapsedChannels: Set<string>;
@@ -459,6 +849,12 @@ const SettingsPanelContent = ({
 
                     <div className="space-y-2">
                         <Label>Audio File</Label>
+                        {selectedHotspot.audioDisabled && !selectedHotspot.audioUrl && (
+                            <p className="flex items-start gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2">
+                                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                                This zone's audio was disabled after a report. Upload a different file to replace it.
+                            </p>
+                        )}
                         {selectedHotspot.audioUrl ? (
                             <div className="bg-slate-50 border rounded-lg p-3">
                                 <div className="flex items-center justify-between gap-3">
@@ -519,27 +915,232 @@ const SettingsPanelContent = ({
                             <div className="grid grid-cols-2 gap-4">
                                 <FadeSlider 
                                     label="Fade In"
-                                    value={selectedHotspot.settings.fadeIn ?? 0.5} 
+                                    value={selectedHotspot.settings.fadeIn} 
                                     onChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, settings: {...h.settings, fadeIn: v}} : h)}))} 
                                 />
                                 <FadeSlider 
                                     label="Fade Out"
-                                    value={selectedHotspot.settings.fadeOut ?? 0.5} 
+                                    value={selectedHotspot.settings.fadeOut} 
                                     onChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, settings: {...h.settings, fadeOut: v}} : h)}))} 
                                 />
                             </div>
-                            <PanSlider 
-                                value={selectedHotspot.settings.pan} 
-                                onChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, settings: {...h.settings, pan: v}} : h)}))} 
-                            />
+                            <div className="space-y-3">
+                                <div className="flex justify-between text-xs text-slate-500 font-medium">
+                                    <span className="flex items-center gap-1.5"><Radar className="w-3.5 h-3.5" /> Proximity Radius</span>
+                                    <span>{(selectedHotspot.settings.proximityRadius ?? 0) === 0 ? "Off" : `${Math.round(selectedHotspot.settings.proximityRadius!)}%`}</span>
+                                </div>
+                                <Slider
+                                    value={[selectedHotspot.settings.proximityRadius ?? 0]}
+                                    max={MAX_PROXIMITY_RADIUS} step={1}
+                                    onValueChange={([v]) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, settings: {...h.settings, proximityRadius: v}} : h)}))}
+                                    className="[&_.bg-primary]:bg-slate-700"
+                                />
+                                {(selectedHotspot.settings.proximityRadius ?? 0) > 0 && (
+                                    <Select
+                                        value={selectedHotspot.settings.proximityFalloff ?? 'smooth'}
+                                        onValueChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, settings: {...h.settings, proximityFalloff: v as FalloffCurve}} : h)}))}
+                                    >
+                                        <SelectTrigger className="h-8 text-sm" aria-label="Proximity falloff">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {(Object.keys(FALLOFF_CURVES) as FalloffCurve[]).map(curve => (
+                                                <SelectItem key={curve} value={curve}>{FALLOFF_CURVES[curve]} falloff</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                )}
+                            </div>
+                            {project.spatialAudio ? (
+                                <p className="text-xs text-slate-400">Panning follows the zone's position because spatial audio is on.</p>
+                            ) : (
+                                <PanSlider 
+                                    value={selectedHotspot.settings.pan} 
+                                    onChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, settings: {...h.settings, pan: v}} : h)}))} 
+                                />
+                            )}
                         </div>
                     )}
+
+                    <div className="space-y-3 pt-2">
+                        <Label className="flex items-center gap-1.5"><Signpost className="w-3.5 h-3.5" /> Go to Scene</Label>
+                        <Select
+                            value={selectedHotspot.targetSceneId ?? 'none'}
+                            onValueChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, targetSceneId: v === 'none' ? null : v} : h)}))}
+                        >
+                            <SelectTrigger className="h-9" aria-label="Scene this zone leads to"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="none">Stay in this scene</SelectItem>
+                                {listScenes(project).filter(s => s.id !== sceneId).map(s => (
+                                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {selectedHotspot.targetSceneId && (
+                            <>
+                                <p className="text-xs text-slate-400">Visitors click, double-tap or press Enter on the zone to go there.</p>
+                                {selectedHotspot.transitionAudioUrl ? (
+                                    <div className="flex items-center justify-between gap-3 bg-slate-50 border rounded-lg p-3">
+                                        <div className="flex items-center gap-2 min-w-0 flex-1">
+                                            <Button
+                                                size="icon"
+                                                variant="outline"
+                                                className="h-8 w-8 shrink-0"
+                                                onClick={() => engine.play(`transition-${selectedHotspot.id}`, selectedHotspot.transitionAudioUrl!, TRANSITION_SETTINGS)}
+                                                aria-label="Play transition sound"
+                                            >
+                                                <Play className="w-4 h-4" />
+                                            </Button>
+                                            <span className="truncate text-sm font-medium text-slate-700">{selectedHotspot.transitionAudioFile?.name || "Transition Sound"}</span>
+                                        </div>
+                                        <Button 
+                                            size="sm" 
+                                            variant="ghost" 
+                                            className="h-6 w-6 text-red-500 shrink-0" 
+                                            onClick={() => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, transitionAudioFile: null, transitionAudioUrl: null, transitionAudioPath: null} : h)}))}
+                                            aria-label="Remove transition sound"
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <Button variant="outline" size="sm" className="w-full" onClick={() => openUploadModal('transition', selectedHotspot.id)}>
+                                        <Upload className="w-4 h-4 mr-2" /> Add Transition Sound
+                                    </Button>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    <div className="space-y-3 pt-2">
+                        <Label className="flex items-center gap-1.5"><Layers className="w-3.5 h-3.5" /> Layering</Label>
+                        <div className="space-y-2">
+                            <Label className="text-xs text-slate-500 font-medium">Nested Inside</Label>
+                            <Select
+                                value={selectedHotspot.parentId ?? 'none'}
+                                onValueChange={(v) => {
+                                    const parentId = v === 'none' ? null : v;
+                                    // Leaving a zone it lies in would make the two overlap without nesting
+                                    const overlapped = findOverlappingZone({ ...selectedHotspot, parentId }, project.hotspots);
+                                    if (overlapped) {
+                                        toast.error(`${selectedHotspot.name} overlaps ${overlapped.name}`, {
+                                            description: "A zone has to stay nested in every zone it lies in.",
+                                        });
+                                        return;
+                                    }
+                                    onUpdate(p => ({...p, hotspots: setZoneParent(p.hotspots, selectedHotspot.id, parentId)}));
+                                }}
+                            >
+                                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">Not nested</SelectItem>
+                                    {findContainingZones(selectedHotspot.points, project.hotspots, selectedHotspot.id)
+                                        .filter(h => h.parentId !== selectedHotspot.id)
+                                        .map(h => (
+                                            <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs text-slate-500 font-medium">Over Other Zones</Label>
+                            <Select
+                                value={selectedHotspot.overlapMode ?? 'solo'}
+                                onValueChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, overlapMode: v as OverlapMode} : h)}))}
+                            >
+                                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(OVERLAP_MODES) as OverlapMode[]).map(mode => (
+                                        <SelectItem key={mode} value={mode}>{OVERLAP_MODES[mode]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-slate-400">Where this zone lies on top of others. Reorder layers from the Zone Inventory.</p>
+                        </div>
+                    </div>
+
+                    <div className="space-y-3 pt-2">
+                        <Label className="flex items-center gap-1.5"><Speech className="w-3.5 h-3.5" /> Spoken Text</Label>
+                        <div className="space-y-2">
+                            <Label htmlFor="zone-spoken-label" className="text-xs text-slate-500 font-medium">Label (spoken on enter)</Label>
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    id="zone-spoken-label"
+                                    value={selectedHotspot.spokenLabel ?? ""}
+                                    placeholder={selectedHotspot.name}
+                                    onChange={(e) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, spokenLabel: e.target.value} : h)}))}
+                                />
+                                <Button
+                                    size="icon"
+                                    variant="outline"
+                                    className="h-9 w-9 shrink-0"
+                                    disabled={!isSpeechSupported() || !selectedHotspot.spokenLabel?.trim()}
+                                    onClick={() => speak(selectedHotspot.spokenLabel ?? "", project.speech)}
+                                    aria-label="Preview spoken label"
+                                >
+                                    <Play className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="zone-description" className="text-xs text-slate-500 font-medium">Description (spoken on long-press)</Label>
+                            <Textarea
+                                id="zone-description"
+                                rows={3}
+                                value={selectedHotspot.description ?? ""}
+                                onChange={(e) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, description: e.target.value} : h)}))}
+                            />
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="w-full"
+                                disabled={!isSpeechSupported() || !selectedHotspot.description?.trim()}
+                                onClick={() => speak(selectedHotspot.description ?? "", project.speech)}
+                            >
+                                <Play className="w-3 h-3 mr-2" /> Preview Description
+                            </Button>
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs text-slate-500 font-medium">When Entered</Label>
+                            <Select
+                                value={selectedHotspot.speechMode ?? 'before'}
+                                onValueChange={(v) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, speechMode: v as SpeechMode} : h)}))}
+                            >
+                                <SelectTrigger className="h-8 text-sm" aria-label="When entered">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="before">Speak label, then play audio</SelectItem>
+                                    <SelectItem value="instead">Speak label instead of audio</SelectItem>
+                                    <SelectItem value="off">Play audio only</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="space-y-3 pt-2">
+                        <Label className="flex items-center gap-1.5"><Vibrate className="w-3.5 h-3.5" /> Haptic Feedback</Label>
+                        <div className="grid grid-cols-2 gap-4">
+                            <HapticPatternPicker
+                                label="On Enter"
+                                allowInherit
+                                value={selectedHotspot.haptics?.enter}
+                                onChange={(preset) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, haptics: {...h.haptics, enter: preset}} : h)}))}
+                            />
+                            <HapticPatternPicker
+                                label="On Leave"
+                                allowInherit
+                                value={selectedHotspot.haptics?.leave}
+                                onChange={(preset) => onUpdate(p => ({...p, hotspots: p.hotspots.map(h => h.id === selectedHotspot.id ? {...h, haptics: {...h.haptics, leave: preset}} : h)}))}
+                            />
+                        </div>
+                    </div>
                         
                         <div className="pt-6 border-t space-y-3">
                         <Button id="tour-zone-done-btn" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white" onClick={() => setSelectedHotspotId(null)}>
                             <Check className="w-4 h-4 mr-2" /> Done
                         </Button>
-                        <Button variant="destructive" className="w-full" onClick={() => { onUpdate(p => ({...p, hotspots: p.hotspots.filter(h => h.id !== selectedHotspot.id)})); setSelectedHotspotId(null); }}>
+                        <Button variant="destructive" className="w-full" onClick={() => { onUpdate(p => ({...p, hotspots: removeZone(p.hotspots, selectedHotspot.id)})); setSelectedHotspotId(null); }}>
                             <Trash2 className="w-4 h-4 mr-2" /> Delete Zone
                         </Button>
                         </div>
@@ -688,7 +1289,7 @@ const SettingsPanelContent = ({
                     </div>
                     
                     <div className="space-y-3">
-                        {(project.globalChannels || []).length === 0 && (
+                        {project.globalChannels.length === 0 && (
                             <div className="border-2 border-dashed border-slate-200 rounded-lg p-4 text-center hover:border-indigo-300 transition-colors cursor-pointer" onClick={addGlobalChannel}>
                                 <div className="mx-auto w-10 h-10 bg-slate-100 rounded-full flex items-center justify-center mb-2 text-slate-400">
                                     <Plus className="w-5 h-5" />
@@ -697,7 +1298,7 @@ const SettingsPanelContent = ({
                                 <p className="text-xs text-slate-400 mt-1">Rain, city noise, or ambient music</p>
                             </div>
                         )}
-                        {(project.globalChannels || []).map(channel => {
+                        {project.globalChannels.map(channel => {
                             const isCollapsed = collapsedChannels.has(channel.id);
                             return (
                             <div 
@@ -795,12 +1396,12 @@ const SettingsPanelContent = ({
                                         <div className="grid grid-cols-2 gap-4">
                                             <FadeSlider 
                                                 label="Fade In"
-                                                value={channel.settings.fadeIn ?? 2.0} 
+                                                value={channel.settings.fadeIn} 
                                                 onChange={(v) => onUpdate(p => ({...p, globalChannels: p.globalChannels.map(ch => ch.id === channel.id ? {...ch, settings: {...ch.settings, fadeIn: v}} : ch)}))} 
                                             />
                                             <FadeSlider 
                                                 label="Fade Out"
-                                                value={channel.settings.fadeOut ?? 2.0} 
+                                                value={channel.settings.fadeOut} 
                                                 onChange={(v) => onUpdate(p => ({...p, globalChannels: p.globalChannels.map(ch => ch.id === channel.id ? {...ch, settings: {...ch.settings, fadeOut: v}} : ch)}))} 
                                             />
                                         </div>
@@ -831,9 +1432,69 @@ const SettingsPanelContent = ({
                     </div>
                 </div>
 
+                <div className="mb-6 bg-slate-50 p-3 rounded-lg space-y-1">
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="spatial-audio" className="text-xs">Spatial Audio (3D)</Label>
+                        <Switch
+                            id="spatial-audio"
+                            checked={!!project.spatialAudio}
+                            onCheckedChange={(c) => onUpdate(p => ({...p, spatialAudio: c}))}
+                        />
+                    </div>
+                    <p className="text-xs text-slate-400">Zones are heard from their direction relative to the visitor's finger. Best with headphones. Replaces the zone panning setting.</p>
+                </div>
+
+                <div className="mb-6 bg-slate-50 p-3 rounded-lg space-y-3">
+                    <div className="flex justify-between text-xs text-slate-500 font-medium">
+                        <span className="flex items-center gap-1.5"><Hand className="w-3.5 h-3.5" /> Simultaneous Zones</span>
+                        <span>{project.maxVoices ?? DEFAULT_MAX_VOICES}</span>
+                    </div>
+                    <Slider
+                        value={[project.maxVoices ?? DEFAULT_MAX_VOICES]}
+                        min={1} max={MAX_VOICES_LIMIT} step={1}
+                        onValueChange={([v]) => onUpdate(p => ({...p, maxVoices: v}))}
+                        className="[&_.bg-primary]:bg-slate-700"
+                    />
+                    <p className="text-xs text-slate-400">How many zones can play together when several fingers touch the map.</p>
+                </div>
+
+                <SpeechSettingsSection project={project} onUpdate={onUpdate} />
+
+                <div className="space-y-4 mb-6">
+                    <div className="flex items-center justify-between">
+                        <Label className="text-slate-500 text-xs uppercase tracking-wider font-bold">Haptic Feedback</Label>
+                        <Switch
+                            checked={project.haptics?.enabled ?? DEFAULT_HAPTICS.enabled}
+                            onCheckedChange={(c) => onUpdate(p => ({...p, haptics: {...DEFAULT_HAPTICS, ...p.haptics, enabled: c}}))}
+                            aria-label="Enable haptic feedback"
+                        />
+                    </div>
+                    {(project.haptics?.enabled ?? DEFAULT_HAPTICS.enabled) && (
+                        <div className="bg-white border rounded-lg p-3 shadow-sm space-y-4">
+                            <p className="text-xs text-slate-400">Vibrations on touch devices as a finger crosses zone borders.</p>
+                            <HapticPatternPicker
+                                label="Entering a zone"
+                                value={project.haptics?.enter ?? DEFAULT_HAPTICS.enter}
+                                onChange={(preset) => onUpdate(p => ({...p, haptics: {...DEFAULT_HAPTICS, ...p.haptics, enter: preset ?? 'none'}}))}
+                            />
+                            <HapticPatternPicker
+                                label="Leaving a zone"
+                                value={project.haptics?.leave ?? DEFAULT_HAPTICS.leave}
+                                onChange={(preset) => onUpdate(p => ({...p, haptics: {...DEFAULT_HAPTICS, ...p.haptics, leave: preset ?? 'none'}}))}
+                            />
+                            <HapticPatternPicker
+                                label="Reaching the image edge"
+                                value={project.haptics?.edge ?? DEFAULT_HAPTICS.edge}
+                                onChange={(preset) => onUpdate(p => ({...p, haptics: {...DEFAULT_HAPTICS, ...p.haptics, edge: preset ?? 'none'}}))}
+                            />
+                        </div>
+                    )}
+                </div>
+
                 <div id="tour-zone-inventory">
                     <div className="flex items-center justify-between mb-4">
                         <Label className="text-slate-500 text-xs uppercase tracking-wider font-bold">Zone Inventory ({project.hotspots.length})</Label>
+                        {project.hotspots.length > 1 && <span className="text-xs text-slate-400">Top layer first</span>}
                     </div>
                     {project.hotspots.length === 0 ? (
                         <div 
@@ -858,16 +1519,40 @@ const SettingsPanelContent = ({
                     ) : (
                         <div className="bg-slate-50 border rounded-lg overflow-hidden max-h-60 overflow-y-auto">
                             <div className="divide-y divide-slate-200">
-                                {project.hotspots.map(h => (
+                                {[...project.hotspots].reverse().map(h => (
                                     <div 
                                         key={h.id}
                                         tabIndex={0}
-                                        className="flex items-center gap-3 p-3 hover:bg-white hover:text-indigo-600 cursor-pointer transition-colors text-sm text-slate-700 focus-visible:bg-indigo-50 focus-visible:text-indigo-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600"
+                                        className="group flex items-center gap-3 p-3 hover:bg-white hover:text-indigo-600 cursor-pointer transition-colors text-sm text-slate-700 focus-visible:bg-indigo-50 focus-visible:text-indigo-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600"
+                                        style={{ paddingLeft: `${0.75 + layerDepth(h, project.hotspots) * 1}rem` }}
                                         onClick={() => setSelectedHotspotId(h.id)}
                                     >
                                         <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: h.color }} />
                                         <span className="flex-1 truncate font-medium">{h.name}</span>
+                                        {h.overlapMode === 'mix' && <Layers className="w-3 h-3 text-slate-400" aria-label="Mixes with zones underneath" />}
                                         {h.audioUrl && <Volume2 className="w-3 h-3 text-slate-400" />}
+                                        <div className="flex items-center -my-1 -mr-1">
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                className="h-6 w-6 text-slate-400 hover:text-slate-700"
+                                                disabled={moveLayer(project.hotspots, h.id, 1) === project.hotspots}
+                                                onClick={(e) => { e.stopPropagation(); onUpdate(p => ({...p, hotspots: moveLayer(p.hotspots, h.id, 1)})); }}
+                                                aria-label={`Move ${h.name} up a layer`}
+                                            >
+                                                <ChevronUp className="w-3.5 h-3.5" />
+                                            </Button>
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                className="h-6 w-6 text-slate-400 hover:text-slate-700"
+                                                disabled={moveLayer(project.hotspots, h.id, -1) === project.hotspots}
+                                                onClick={(e) => { e.stopPropagation(); onUpdate(p => ({...p, hotspots: moveLayer(p.hotspots, h.id, -1)})); }}
+                                                aria-label={`Move ${h.name} down a layer`}
+                                            >
+                                                <ChevronDown className="w-3.5 h-3.5" />
+                                            </Button>
+                                        </div>
                                     </div>
                                 ))}
                             </div>
@@ -894,20 +1579,6 @@ const refreshProjectUrls = async (project: Project, token: string): Promise<Proj
         }).join('/');
     };
     
-    if (p.imagePath) {
-        try {
-            const sanitizedPath = sanitizeStoragePath(p.imagePath);
-            const { url } = await getSignedUrl(token, sanitizedPath);
-            p.imageUrl = url;
-            p.imagePath = sanitizedPath; // Update to sanitized path
-        } catch (e) { 
-            console.warn(`Background image not found in storage, clearing reference: ${p.imagePath}`);
-            // Clear invalid references
-            p.imagePath = undefined;
-            p.imageUrl = undefined;
-        }
-    }
-    
     if (p.introAudioPath) {
         try {
             const sanitizedPath = sanitizeStoragePath(p.introAudioPath);
@@ -922,37 +1593,66 @@ const refreshProjectUrls = async (project: Project, token: string): Promise<Proj
         }
     }
     
-    p.hotspots = await Promise.all(p.hotspots.map(async h => {
-        if (h.audioPath) {
+    // Image, zones and channels of every scene
+    return updateScenesAsync(p, async (scene) => {
+        const s: Partial<Scene> = {};
+
+        if (scene.imagePath) {
             try {
-                const sanitizedPath = sanitizeStoragePath(h.audioPath);
+                const sanitizedPath = sanitizeStoragePath(scene.imagePath);
                 const { url } = await getSignedUrl(token, sanitizedPath);
-                return { ...h, audioUrl: url, audioPath: sanitizedPath };
+                s.imageUrl = url;
+                s.imagePath = sanitizedPath; // Update to sanitized path
             } catch (e) { 
-                console.warn(`Hotspot audio not found in storage, clearing reference: ${h.audioPath}`);
-                // Return hotspot without audio references
-                return { ...h, audioPath: undefined, audioUrl: undefined };
+                console.warn(`Background image not found in storage, clearing reference: ${scene.imagePath}`);
+                // Clear invalid references
+                s.imagePath = undefined;
+                s.imageUrl = undefined;
             }
         }
-        return h;
-    }));
-    
-    p.globalChannels = await Promise.all((p.globalChannels || []).map(async c => {
-        if (c.audioPath) {
-             try {
-                const sanitizedPath = sanitizeStoragePath(c.audioPath);
-                const { url } = await getSignedUrl(token, sanitizedPath);
-                return { ...c, audioUrl: url, audioPath: sanitizedPath };
-             } catch (e) { 
-                console.warn(`Background channel audio not found in storage, clearing reference: ${c.audioPath}`);
-                // Return channel without audio references
-                return { ...c, audioPath: undefined, audioUrl: undefined };
-             }
-        }
-        return c;
-    }));
-    
-    return p;
+
+        s.hotspots = await Promise.all((scene.hotspots as Hotspot[]).map(async h => {
+            if (h.transitionAudioPath) {
+                try {
+                    const sanitizedPath = sanitizeStoragePath(h.transitionAudioPath);
+                    const { url } = await getSignedUrl(token, sanitizedPath);
+                    h = { ...h, transitionAudioUrl: url, transitionAudioPath: sanitizedPath };
+                } catch (e) {
+                    console.warn(`Transition audio not found in storage, clearing reference: ${h.transitionAudioPath}`);
+                    h = { ...h, transitionAudioPath: undefined, transitionAudioUrl: undefined };
+                }
+            }
+            if (h.audioPath && !h.audioDisabled) {
+                try {
+                    const sanitizedPath = sanitizeStoragePath(h.audioPath);
+                    const { url } = await getSignedUrl(token, sanitizedPath);
+                    return { ...h, audioUrl: url, audioPath: sanitizedPath };
+                } catch (e) { 
+                    console.warn(`Hotspot audio not found in storage, clearing reference: ${h.audioPath}`);
+                    // Return hotspot without audio references
+                    return { ...h, audioPath: undefined, audioUrl: undefined };
+                }
+            }
+            return h;
+        }));
+
+        s.globalChannels = await Promise.all((scene.globalChannels as GlobalChannel[]).map(async c => {
+            if (c.audioPath) {
+                 try {
+                    const sanitizedPath = sanitizeStoragePath(c.audioPath);
+                    const { url } = await getSignedUrl(token, sanitizedPath);
+                    return { ...c, audioUrl: url, audioPath: sanitizedPath };
+                 } catch (e) { 
+                    console.warn(`Background channel audio not found in storage, clearing reference: ${c.audioPath}`);
+                    // Return channel without audio references
+                    return { ...c, audioPath: undefined, audioUrl: undefined };
+                 }
+            }
+            return c;
+        }));
+
+        return s;
+    });
 };
 
 const TOUR_STEPS: TourStep[] = [
@@ -1037,16 +1737,30 @@ export const SoundMapApp = () => {
   const [view, setView] = useState<ViewMode>('gallery');
   const [projects, setProjects] = useState<Project[]>([]);
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  // Scene open in the editor; each project opens on its first scene
+  const [currentSceneId, setCurrentSceneId] = useState(MAIN_SCENE_ID);
+  useEffect(() => setCurrentSceneId(MAIN_SCENE_ID), [currentProjectId]);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoadingProjects, setIsLoadingProjects] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [tourStepIndex, setTourStepIndex] = useState(0);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
-  const [uploadTarget, setUploadTarget] = useState<{ type: 'hotspot' | 'channel', id: string } | null>(null);
+  const [uploadTarget, setUploadTarget] = useState<{ type: UploadTargetType, id: string } | null>(null);
   const [narrationModalOpen, setNarrationModalOpen] = useState(false);
   const [showMissingAudioWarning, setShowMissingAudioWarning] = useState(false);
   const [missingAudioZones, setMissingAudioZones] = useState<string[]>([]);
 
+  // Undo/redo for the project open in the editor; starts fresh for each project
+  const [history, setHistory] = useState<History<Project>>(createHistory);
+  useEffect(() => {
+      setHistory(createHistory());
+  }, [currentProjectId]);
+  // The latest committed projects, for updates made after an upload or other await
+  const latestProjectsRef = useRef<Project[]>([]);
+  useEffect(() => {
+      latestProjectsRef.current = projects;
+  }, [projects]);
+
   const handleTourNext = () => {
       if (tourStepIndex < TOUR_STEPS.length - 1) {
           setTourStepIndex(prev => prev + 1);
@@ -1068,6 +1782,9 @@ export const SoundMapApp = () => {
   // Shared View State
   const [sharedProject, setSharedProject] = useState<Project | null>(null);
   const [sharedError, setSharedError] = useState<string | null>(null);
+  // Set while a protected link waits for its access code
+  const [accessCodePrompt, setAccessCodePrompt] = useState<{ error: string | null } | null>(null);
+  const [isCheckingCode, setIsCheckingCode] = useState(false);
   const [isSharedView, setIsSharedView] = useState(() => {
       if (typeof window !== 'undefined') {
           const params = new URLSearchParams(window.location.search);
@@ -1076,22 +1793,46 @@ export const SoundMapApp = () => {
       return false;
   });
 
+  const loadSharedProject = (accessCode?: string) => {
+      const shortId = new URLSearchParams(window.location.search).get('s');
+      if (!shortId) return Promise.resolve();
+
+      return getSharedProject(shortId, accessCode)
+          .then(p => {
+              setSharedProject(migrateProject(p) as Project);
+              setAccessCodePrompt(null);
+          })
+          .catch(async (err) => {
+              if (err instanceof AccessCodeError) {
+                  setAccessCodePrompt({ error: err.reason === 'required' ? null : err.message });
+                  return;
+              }
+              // No connection (fetch fails with a TypeError): play the copy saved on this device
+              const saved = err instanceof TypeError ? await getOfflineMap(shortId).catch(() => null) : null;
+              if (saved) {
+                  setSharedProject(migrateProject(saved.project) as Project);
+                  setAccessCodePrompt(null);
+                  toast.info("You're offline. Playing the copy saved on this device.");
+                  return;
+              }
+              console.error("Error loading shared project:", err);
+              setSharedError(err instanceof ProjectSchemaError
+                  ? "This map can't be opened. It may have been made with a newer version of the app."
+                  : err instanceof NotPublishedError
+                  ? "This map hasn't been published yet. Check back later."
+                  : "Link invalid or expired.");
+          });
+  };
+
+  const handleAccessCode = (code: string) => {
+      setIsCheckingCode(true);
+      loadSharedProject(code).finally(() => setIsCheckingCode(false));
+  };
+
   useEffect(() => {
       if (isSharedView) {
-          const params = new URLSearchParams(window.location.search);
-          const shortId = params.get('s');
-
-          if (shortId) {
-               import('../utils/api').then(({ getSharedProject, initServer }) => {
-                   initServer();
-                   getSharedProject(shortId)
-                       .then(setSharedProject)
-                       .catch((err) => {
-                           console.error("Error loading shared project:", err);
-                           setSharedError("Link invalid or expired.");
-                       });
-               });
-          }
+          initServer();
+          loadSharedProject();
       }
   }, [isSharedView]);
 
@@ -1116,28 +1857,42 @@ export const SoundMapApp = () => {
           initServer();
           
           // Load Projects
-          loadProjects(session.access_token).then(async (loaded: Project[]) => {
+          loadProjects(session.access_token).then(async (stored: any[]) => {
+              // Documents that can't be upgraded stay on the server untouched
+              const loaded: Project[] = [];
+              stored.forEach(raw => {
+                  try {
+                      loaded.push(migrateProject(raw) as Project);
+                  } catch (e) {
+                      console.error(`Could not read project ${raw?.id}:`, e);
+                      toast.error(`"${raw?.title || 'Untitled Project'}" could not be opened`, { description: (e as Error).message });
+                  }
+              });
+
               const hydrated = await Promise.all(loaded.map(p => refreshProjectUrls(p, session.access_token)));
-              setProjects(hydrated);
               
-              // Check if any projects were cleaned up (had invalid paths removed)
-              const needsSaving = hydrated.some((hydratedProj, idx) => {
+              // Check which projects were cleaned up (had invalid paths removed)
+              const needsSaving = (hydratedProj: Project, idx: number) => {
                   const originalProj = loaded[idx];
-                  return (
+                  return Boolean(
                       (originalProj.imagePath && !hydratedProj.imagePath) ||
                       (originalProj.introAudioPath && !hydratedProj.introAudioPath) ||
                       originalProj.hotspots.some((h: any, i: number) => h.audioPath && !hydratedProj.hotspots[i]?.audioPath) ||
-                      (originalProj.globalChannels || []).some((c: any, i: number) => c.audioPath && !(hydratedProj.globalChannels || [])[i]?.audioPath)
+                      originalProj.globalChannels.some((c: any, i: number) => c.audioPath && !hydratedProj.globalChannels[i]?.audioPath)
                   );
-              });
+              };
               
-              // Auto-save to clean up invalid references in the database
-              if (needsSaving) {
-                  console.log('Auto-saving projects to clean up invalid file references');
-                  saveProjects(session.access_token, hydrated).catch(err => 
-                      console.error('Failed to auto-save cleaned projects:', err)
-                  );
-              }
+              // Everything else matches the server already. Cleaned-up projects are left
+              // unmarked so the auto-save writes the fixed references back.
+              savedProjectsRef.current = new Map();
+              hydrated.forEach((p, idx) => {
+                  if (needsSaving(p, idx)) {
+                      console.log('Auto-saving project to clean up invalid file references:', p.id);
+                  } else {
+                      savedProjectsRef.current.set(p.id, p);
+                  }
+              });
+              setProjects(hydrated);
           }).catch(console.error)
             .finally(() => setIsLoadingProjects(false));
 
@@ -1150,54 +1905,216 @@ export const SoundMapApp = () => {
       }
   }, [session?.access_token]);
 
-  // Auto-save
+  // Last version of each project known to be on the server
+  const savedProjectsRef = useRef<Map<string, Project>>(new Map());
+
+  // A save rejected because the project was changed in another tab or device
+  const [saveConflict, setSaveConflict] = useState<{ local: Project; server: Project } | null>(null);
+
+  // Stamps the server's new version onto a saved project without counting it as an edit
+  const markSaved = (sent: Project, result: { version: number; updatedAt: string }) => {
+      const stamp = { version: result.version, updatedAt: result.updatedAt };
+      setProjects(prev => prev.map(p => {
+          if (p.id !== sent.id) return p;
+          const next = { ...p, ...stamp };
+          // Edits made while the save was in flight still count as unsaved
+          savedProjectsRef.current.set(p.id, p === sent ? next : { ...sent, ...stamp });
+          return next;
+      }));
+  };
+
+  // Auto-save: only projects that changed since their last save are sent
   useEffect(() => {
-      if (session?.access_token && projects.length > 0) {
-          setIsSaving(true);
-          const timer = setTimeout(() => {
-              saveProjects(session.access_token, projects)
-                .then(() => setIsSaving(false))
-                .catch(e => {
-                    console.error(e);
-                    setIsSaving(false);
-                });
-          }, 2000);
-          return () => clearTimeout(timer);
-      }
-  }, [projects, session?.access_token]);
+      if (!session?.access_token) return;
+      const changed = projects.filter(p => savedProjectsRef.current.get(p.id) !== p && p.id !== saveConflict?.local.id);
+      if (changed.length === 0) return;
 
-  const currentProject = projects.find(p => p.id === currentProjectId);
+      setIsSaving(true);
+      const timer = setTimeout(() => {
+          Promise.all(changed.map(async (project) => {
+              const saved = savedProjectsRef.current.get(project.id);
+              try {
+                  // Already on the server: send just the fields that were replaced
+                  const result = saved
+                      ? await patchProject(session.access_token, project, Object.keys(project).filter(key => (project as any)[key] !== (saved as any)[key]))
+                      : await saveProject(session.access_token, project);
+                  markSaved(project, result);
+              } catch (e) {
+                  if (e instanceof ProjectConflictError) {
+                      setSaveConflict(prev => prev ?? { local: project, server: migrateProject(e.serverProject) as Project });
+                  } else if (e instanceof ProjectSchemaError) {
+                      toast.error(`"${project.title}" could not be saved`, { description: e.message });
+                  } else {
+                      throw e;
+                  }
+              }
+          }))
+            .catch(e => console.error(e))
+            .finally(() => setIsSaving(false));
+      }, 2000);
+      return () => clearTimeout(timer);
+  }, [projects, session?.access_token, saveConflict]);
 
-  const handleCreateProject = () => {
-    const newProject: Project = {
-      id: crypto.randomUUID(),
-      title: `Untitled Project ${projects.length + 1}`,
-      imageFile: null,
-      imageUrl: null,
-      hotspots: [],
-      globalChannels: [],
-      introAudioFile: null,
-      introAudioUrl: null,
-      introAudioLoop: false,
-      createdAt: Date.now(),
-    };
-    setProjects([...projects, newProject]);
-    setCurrentProjectId(newProject.id);
-    setView('editor');
+  const replaceWithServerCopy = async (server: Project) => {
+      const hydrated = await refreshProjectUrls(server, session.access_token);
+      savedProjectsRef.current.set(hydrated.id, hydrated);
+      setProjects(prev => prev.map(p => p.id === hydrated.id ? hydrated : p));
+      if (currentProjectId === hydrated.id) setHistory(createHistory());
+  };
 
-    if (showOnboarding && tourStepIndex === 0) {
-        setTourStepIndex(1);
-    }
+  // Conflict resolution: take the other copy, force ours, or keep ours as a new project
+  const handleConflictReload = async () => {
+      if (!saveConflict) return;
+      await replaceWithServerCopy(saveConflict.server);
+      setSaveConflict(null);
   };
 
-  const openUploadModal = (type: 'hotspot' | 'channel', id: string) => {
-      setUploadTarget({ type, id });
-      setUploadModalOpen(true);
-      
-      // Close the tutorial when upload modal opens
-      if (showOnboarding) {
-          setShowOnboarding(false);
-          if (session?.access_token) {
+  const handleConflictOverwrite = async () => {
+      if (!saveConflict) return;
+      const local = projects.find(p => p.id === saveConflict.local.id) ?? saveConflict.local;
+      try {
+          markSaved(local, await saveProject(session.access_token, local, { force: true }));
+          setSaveConflict(null);
+      } catch (e) {
+          console.error(e);
+          toast.error('Could not save your version. Please try again.');
+      }
+  };
+
+  // A deep copy of the project under a new id, with its own copies of the files
+  // (each project keeps them in its own folder). Unsaved, so the auto-save
+  // creates it on the server.
+  const copyProject = async (source: Project, title: string): Promise<Project> => {
+      const id = crypto.randomUUID();
+      // The server only keeps a moderator's switch-off on the reported project
+      const clone: Project = structuredClone(updateScenes(source, scene => ({
+          hotspots: scene.hotspots.map((h: Hotspot) => h.audioDisabled ? { ...h, audioPath: null, audioUrl: null, audioDisabled: undefined } : h),
+      })));
+      const copy = await copyProjectFiles(session.access_token, clone, id);
+      return { ...copy, id, title, createdAt: Date.now(), version: undefined, updatedAt: undefined };
+  };
+
+  const handleConflictKeepBoth = async () => {
+      if (!saveConflict) return;
+      const local = projects.find(p => p.id === saveConflict.local.id) ?? saveConflict.local;
+      let copy: Project;
+      try {
+          copy = await copyProject(local, `${local.title} (copy)`);
+      } catch (e) {
+          console.error(e);
+          toast.error('Could not copy the files of your version. Please try again.');
+          return;
+      }
+      setProjects(prev => [...prev, copy]);
+      if (currentProjectId === local.id) setCurrentProjectId(copy.id);
+      await replaceWithServerCopy(saveConflict.server);
+      setSaveConflict(null);
+  };
+
+  const currentProject = projects.find(p => p.id === currentProjectId);
+  const isDraftSaved = !!currentProject && savedProjectsRef.current.get(currentProject.id) === currentProject;
+
+  // Publications of the open project, newest first
+  const [publications, setPublications] = useState<Publication[]>([]);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  useEffect(() => {
+      setPublications([]);
+      if (!session?.access_token || !currentProjectId || view !== 'editor') return;
+      listPublications(session.access_token, currentProjectId)
+          .then(setPublications)
+          .catch(e => console.error('Failed to load publications:', e));
+  }, [session?.access_token, currentProjectId, view]);
+
+  // Publishes the saved draft, exactly as the editor shows it
+  const handlePublish = async () => {
+      if (!currentProject || !isDraftSaved) return;
+      setIsPublishing(true);
+      try {
+          const publication = await publishProject(session.access_token, currentProject.id, currentProject.version);
+          setPublications(prev => [publication, ...prev]);
+          toast.success(`Published version ${publication.number}`, {
+              description: 'Share links that follow the latest version now show it.',
+          });
+      } catch (e) {
+          if (e instanceof ProjectConflictError) {
+              setSaveConflict(prev => prev ?? { local: currentProject, server: migrateProject(e.serverProject) as Project });
+          } else {
+              console.error(e);
+              toast.error('Could not publish the project', { description: (e as Error).message });
+          }
+      } finally {
+          setIsPublishing(false);
+      }
+  };
+
+  // Templates saved by the user, newest first; see also STARTER_TEMPLATES
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  const [isCreatingProject, setIsCreatingProject] = useState(false);
+
+  useEffect(() => {
+      if (!session?.access_token) return;
+      listTemplates(session.access_token)
+          .then(setTemplates)
+          .catch(e => console.error('Failed to load templates:', e));
+  }, [session?.access_token]);
+
+  // Blank, from a built-in starter, or from one of the user's templates
+  const handleCreateProject = async (template: StarterTemplate | ProjectTemplate | null = null) => {
+    let newProject: Project = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: crypto.randomUUID(),
+      title: template ? template.name : `Untitled Project ${projects.length + 1}`,
+      imageFile: null,
+      imageUrl: null,
+      hotspots: template && 'hotspots' in template ? template.hotspots() : [],
+      globalChannels: [],
+      introAudioFile: null,
+      introAudioUrl: null,
+      introAudioLoop: false,
+      createdAt: Date.now(),
+    };
+
+    if (template && 'project' in template) {
+        setIsCreatingProject(true);
+        try {
+            // The template's files are copied, so it stays as it is
+            const copy = await copyProjectFiles(session.access_token, migrateProject(template.project), newProject.id);
+            newProject = await refreshProjectUrls({ ...copy, id: newProject.id, title: newProject.title, createdAt: newProject.createdAt }, session.access_token);
+        } catch (e) {
+            console.error('Failed to create project from template:', e);
+            toast.error(`Could not use the template "${template.name}"`, { description: 'Check the connection and try again.' });
+            return;
+        } finally {
+            setIsCreatingProject(false);
+        }
+    }
+
+    setIsTemplatePickerOpen(false);
+    setProjects(prev => [...prev, newProject]);
+    setCurrentProjectId(newProject.id);
+    setView('editor');
+
+    if (showOnboarding && tourStepIndex === 0) {
+        setTourStepIndex(1);
+    }
+  };
+
+  // The tour's first step expects "New Project" to open a project straight away
+  const handleNewProject = () => {
+    if (showOnboarding && tourStepIndex === 0) handleCreateProject();
+    else setIsTemplatePickerOpen(true);
+  };
+
+  const openUploadModal = (type: UploadTargetType, id: string) => {
+      setUploadTarget({ type, id });
+      setUploadModalOpen(true);
+      
+      // Close the tutorial when upload modal opens
+      if (showOnboarding) {
+          setShowOnboarding(false);
+          if (session?.access_token) {
               saveUserPreferences(session.access_token, { hasSeenOnboarding: true }).catch(console.error);
           }
       }
@@ -1211,7 +2128,7 @@ export const SoundMapApp = () => {
       
       if (uploadTarget.type === 'hotspot') {
           const path = `${session.user.id}/${currentProject.id}/hs_${uploadTarget.id}_${Date.now()}.mp3`;
-          handleUpdateProject(p => ({
+          handleUpdateScene(p => ({
               ...p,
               hotspots: p.hotspots.map(h => 
                   h.id === uploadTarget.id 
@@ -1220,12 +2137,23 @@ export const SoundMapApp = () => {
               )
           }));
           try { await uploadFile(session.access_token, file, path); } catch(e) { console.error(e); }
+      } else if (uploadTarget.type === 'transition') {
+          const path = `${session.user.id}/${currentProject.id}/tr_${uploadTarget.id}_${Date.now()}.mp3`;
+          handleUpdateScene(p => ({
+              ...p,
+              hotspots: p.hotspots.map(h =>
+                  h.id === uploadTarget.id
+                      ? {...h, transitionAudioFile: file, transitionAudioUrl: URL.createObjectURL(file), transitionAudioPath: path}
+                      : h
+              )
+          }));
+          try { await uploadFile(session.access_token, file, path); } catch(e) { console.error(e); }
       } else if (uploadTarget.type === 'channel') {
           if (uploadTarget.id === 'new') {
               // Create a new channel when uploading
               const newChannel: GlobalChannel = {
                   id: crypto.randomUUID(),
-                  name: file.name.split('.')[0] || `Channel ${(currentProject.globalChannels || []).length + 1}`,
+                  name: file.name.split('.')[0] || `Channel ${sceneView(currentProject, currentSceneId).globalChannels.length + 1}`,
                   audioFile: null,
                   audioUrl: null,
                   settings: { volume: 0.5, pan: 0, loop: true, fadeIn: 2.0, fadeOut: 2.0 }
@@ -1235,9 +2163,9 @@ export const SoundMapApp = () => {
               // Add the new channel to collapsed state
               setCollapsedChannels(prev => new Set([...prev, newChannel.id]));
               
-              handleUpdateProject(p => ({
+              handleUpdateScene(p => ({
                   ...p,
-                  globalChannels: [...(p.globalChannels || []), {
+                  globalChannels: [...p.globalChannels, {
                       ...newChannel,
                       audioFile: file,
                       audioUrl: URL.createObjectURL(file),
@@ -1247,7 +2175,7 @@ export const SoundMapApp = () => {
               try { await uploadFile(session.access_token, file, path); } catch(e) { console.error(e); }
           } else {
               const path = `${session.user.id}/${currentProject.id}/gc_${uploadTarget.id}_${Date.now()}.mp3`;
-              handleUpdateProject(p => ({
+              handleUpdateScene(p => ({
                   ...p,
                   globalChannels: p.globalChannels.map(c => 
                       c.id === uploadTarget.id 
@@ -1275,7 +2203,7 @@ export const SoundMapApp = () => {
           if (uploadTarget.type === 'hotspot') {
               const path = `${session.user.id}/${currentProject.id}/hs_${uploadTarget.id}_${Date.now()}.mp3`;
               const audioUrl = sound.previews['preview-hq-mp3'] || sound.previews['preview-lq-mp3'];
-              handleUpdateProject(p => ({
+              handleUpdateScene(p => ({
                   ...p,
                   hotspots: p.hotspots.map(h => 
                       h.id === uploadTarget.id 
@@ -1284,12 +2212,24 @@ export const SoundMapApp = () => {
                   )
               }));
               await uploadFile(session.access_token, file, path);
+          } else if (uploadTarget.type === 'transition') {
+              const path = `${session.user.id}/${currentProject.id}/tr_${uploadTarget.id}_${Date.now()}.mp3`;
+              const audioUrl = sound.previews['preview-hq-mp3'] || sound.previews['preview-lq-mp3'];
+              handleUpdateScene(p => ({
+                  ...p,
+                  hotspots: p.hotspots.map(h =>
+                      h.id === uploadTarget.id
+                          ? {...h, transitionAudioFile: file, transitionAudioUrl: audioUrl, transitionAudioPath: path}
+                          : h
+                  )
+              }));
+              await uploadFile(session.access_token, file, path);
           } else if (uploadTarget.type === 'channel') {
               if (uploadTarget.id === 'new') {
                   // Create a new channel when selecting from library
                   const newChannel: GlobalChannel = {
                       id: crypto.randomUUID(),
-                      name: sound.name || `Channel ${(currentProject.globalChannels || []).length + 1}`,
+                      name: sound.name || `Channel ${sceneView(currentProject, currentSceneId).globalChannels.length + 1}`,
                       audioFile: null,
                       audioUrl: null,
                       settings: { volume: 0.5, pan: 0, loop: true, fadeIn: 2.0, fadeOut: 2.0 }
@@ -1300,9 +2240,9 @@ export const SoundMapApp = () => {
                   // Add the new channel to collapsed state
                   setCollapsedChannels(prev => new Set([...prev, newChannel.id]));
                   
-                  handleUpdateProject(p => ({
+                  handleUpdateScene(p => ({
                       ...p,
-                      globalChannels: [...(p.globalChannels || []), {
+                      globalChannels: [...p.globalChannels, {
                           ...newChannel,
                           audioFile: file,
                           audioUrl: audioUrl,
@@ -1314,7 +2254,7 @@ export const SoundMapApp = () => {
               } else {
                   const path = `${session.user.id}/${currentProject.id}/gc_${uploadTarget.id}_${Date.now()}.mp3`;
                   const audioUrl = sound.previews['preview-hq-mp3'] || sound.previews['preview-lq-mp3'];
-                  handleUpdateProject(p => ({
+                  handleUpdateScene(p => ({
                       ...p,
                       globalChannels: p.globalChannels.map(c => 
                           c.id === uploadTarget.id 
@@ -1348,51 +2288,206 @@ export const SoundMapApp = () => {
   };
 
   const handleUpdateProject = (updatedProject: Project | ((prev: Project) => Project)) => {
-      setProjects(prev => {
-          const nextProjects = prev.map(p => {
-              if (p.id === currentProjectId) {
-                   const nextP = typeof updatedProject === 'function' ? updatedProject(p) : updatedProject;
-                   
-                   // Tour Logic
-                   if (showOnboarding) {
-                       // Step 1: Upload Image
-                       if (tourStepIndex === 1 && nextP.imageUrl && !p.imageUrl) {
-                            setTourStepIndex(2); // Move to draw zones step
-                       }
-                       // Step 2: Draw Zones - advance when first hotspot is created
-                       if (tourStepIndex === 2 && nextP.hotspots.length > 0 && p.hotspots.length === 0) {
-                            setTourStepIndex(3); // Move to zone inventory step
-                       }
-                       // Step 4: Zone Upload Audio - advance when audio is added to zone
-                       if (tourStepIndex === 4) {
-                           const hasAudioAdded = nextP.hotspots.some(h => h.audioUrl) && !p.hotspots.some(h => h.audioUrl);
-                           if (hasAudioAdded) {
-                               setTourStepIndex(5); // Move to zone done step
-                           }
-                       }
-                       // Step 6: Intro Audio (Narration)
-                       if (tourStepIndex === 6 && nextP.introAudioUrl && !p.introAudioUrl) {
-                            setTourStepIndex(7); // Move to add channel step
-                       }
-                       // Step 7: Add Channel (Background Audio)
-                       if (tourStepIndex === 7 && (nextP.globalChannels?.length || 0) > (p.globalChannels?.length || 0)) {
-                            setTourStepIndex(8); // Move to preview step
-                       }
-                   }
-                   return nextP;
+      const apply = (p: Project) => typeof updatedProject === 'function' ? updatedProject(p) : updatedProject;
+
+      // The updater below stays pure (React may run it more than once); history
+      // and the tour look at the change against the latest committed project instead
+      const p = latestProjectsRef.current.find(x => x.id === currentProjectId);
+      const nextP = p && apply(p);
+      if (p && nextP && nextP !== p) {
+          setHistory(h => recordChange(h, p));
+
+          // Tour Logic
+          if (showOnboarding) {
+              // Step 1: Upload Image
+              if (tourStepIndex === 1 && nextP.imageUrl && !p.imageUrl) {
+                   setTourStepIndex(2); // Move to draw zones step
               }
-              return p;
-          });
-          return nextProjects;
+              // Step 2: Draw Zones - advance when first hotspot is created
+              if (tourStepIndex === 2 && nextP.hotspots.length > 0 && p.hotspots.length === 0) {
+                   setTourStepIndex(3); // Move to zone inventory step
+              }
+              // Step 4: Zone Upload Audio - advance when audio is added to zone
+              if (tourStepIndex === 4) {
+                  const hasAudioAdded = nextP.hotspots.some(h => h.audioUrl) && !p.hotspots.some(h => h.audioUrl);
+                  if (hasAudioAdded) {
+                      setTourStepIndex(5); // Move to zone done step
+                  }
+              }
+              // Step 6: Intro Audio (Narration)
+              if (tourStepIndex === 6 && nextP.introAudioUrl && !p.introAudioUrl) {
+                   setTourStepIndex(7); // Move to add channel step
+              }
+              // Step 7: Add Channel (Background Audio)
+              if (tourStepIndex === 7 && (nextP.globalChannels?.length || 0) > (p.globalChannels?.length || 0)) {
+                   setTourStepIndex(8); // Move to preview step
+              }
+          }
+      }
+
+      setProjects(prev => prev.map(p => p.id === currentProjectId ? apply(p) : p));
+  };
+
+  // Changes to the scene open in the editor, which sees it as if it were the whole project
+  const handleUpdateScene = (update: Project | ((prev: Project) => Project)) => {
+      handleUpdateProject(p => {
+          const view = sceneView(p, currentSceneId);
+          const next = typeof update === 'function' ? update(view) : update;
+          return next === view ? p : applySceneView(p, currentSceneId, next);
       });
   };
 
+  const handleAddScene = () => {
+      const scene: Scene = {
+          id: crypto.randomUUID(),
+          name: `Scene ${listScenes(currentProject).length + 1}`,
+          imageFile: null,
+          imageUrl: null,
+          hotspots: [],
+          globalChannels: [],
+      };
+      handleUpdateProject(p => ({ ...p, scenes: [...(p.scenes ?? []), scene] }));
+      setCurrentSceneId(scene.id);
+  };
+
+  const handleRenameScene = (id: string, name: string) => {
+      handleUpdateProject(p => id === MAIN_SCENE_ID
+          ? { ...p, sceneName: name }
+          : { ...p, scenes: (p.scenes ?? []).map(s => s.id === id ? { ...s, name } : s) });
+  };
+
+  // Zones that led to the removed scene become ordinary zones again
+  const handleDeleteScene = (id: string) => {
+      setCurrentSceneId(MAIN_SCENE_ID);
+      handleUpdateProject(p => updateScenes({ ...p, scenes: (p.scenes ?? []).filter(s => s.id !== id) }, scene => ({
+          hotspots: scene.hotspots.map((h: Hotspot) => h.targetSceneId === id ? { ...h, targetSceneId: null } : h),
+      })));
+      toast.success("Scene deleted", { description: "Use Undo to bring it back." });
+  };
+
+  const handleUndo = () => {
+      const current = projects.find(p => p.id === currentProjectId);
+      const result = current && undoChange(history, current);
+      if (!result) return;
+      setHistory(result.history);
+      // Snapshots carry the version they were taken at; keep the latest one
+      const restored = { ...result.state, version: current.version, updatedAt: current.updatedAt };
+      setProjects(prev => prev.map(p => p.id === restored.id ? restored : p));
+  };
+
+  const handleRedo = () => {
+      const current = projects.find(p => p.id === currentProjectId);
+      const result = current && redoChange(history, current);
+      if (!result) return;
+      setHistory(result.history);
+      const restored = { ...result.state, version: current.version, updatedAt: current.updatedAt };
+      setProjects(prev => prev.map(p => p.id === restored.id ? restored : p));
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+      const project = projects.find(p => p.id === id);
+      if (!project || !session?.access_token) return;
+      try {
+          const copy = await copyProject(project, `${project.title} (copy)`);
+          setProjects(prev => [...prev, copy]);
+          toast.success(`Duplicated "${project.title}"`);
+      } catch (e) {
+          console.error('Failed to duplicate project:', e);
+          toast.error(`Could not duplicate "${project.title}"`, { description: 'Check the connection and try again.' });
+      }
+  };
+
+  const handleSaveTemplate = async (id: string, name: string) => {
+      const project = projects.find(p => p.id === id);
+      if (!project || !session?.access_token) return;
+      try {
+          const template = await saveTemplate(session.access_token, exportableProject(project), name);
+          setTemplates(prev => [template, ...prev]);
+          toast.success(`Saved "${name}" as a template`, { description: 'Pick it when you create a new project.' });
+      } catch (e) {
+          console.error('Failed to save template:', e);
+          toast.error('Could not save the template', { description: (e as Error).message });
+      }
+  };
+
+  // Also removes the template's own copies of the files
+  const handleDeleteTemplate = async (id: string) => {
+      try {
+          await deleteTemplate(session.access_token, id);
+          setTemplates(prev => prev.filter(t => t.id !== id));
+      } catch (e) {
+          console.error('Failed to delete template:', e);
+          toast.error('Could not delete the template. Please try again.');
+      }
+  };
+
   const handleDeleteProject = (id: string) => {
+    savedProjectsRef.current.delete(id);
     setProjects(prev => prev.filter(p => p.id !== id));
     if (currentProjectId === id) {
       setCurrentProjectId(null);
       setView('gallery');
     }
+
+    // Also removes its share links and uploaded files; unknown ids are ignored
+    if (session?.access_token) {
+      deleteProject(session.access_token, id).catch(e => {
+        console.error('Failed to delete project:', e);
+        toast.error('Could not delete the project on the server. Please try again.');
+      });
+    }
+  };
+
+  // Export and import of self-contained bundles (see utils/bundle.ts)
+  const [bundleTask, setBundleTask] = useState<{ label: string; progress: BundleProgress } | null>(null);
+
+  // 'bundle' can be imported again; 'site' is a static folder that plays without any server
+  const handleExportProject = async (id: string, format: 'bundle' | 'site') => {
+      const project = projects.find(p => p.id === id);
+      if (!project || !session?.access_token || bundleTask) return;
+
+      const label = format === 'site' ? `Exporting "${project.title}" for a kiosk` : `Exporting "${project.title}"`;
+      const name = sanitizeFilename(project.title) || 'sound-map';
+      setBundleTask({ label, progress: { done: 0, total: 0 } });
+      try {
+          const onProgress = (progress: BundleProgress) => setBundleTask({ label, progress });
+          const archive = format === 'site'
+              ? await exportStaticSite(session.access_token, project, name, onProgress)
+              : await exportProjectBundle(session.access_token, project, onProgress);
+          const link = document.createElement('a');
+          link.href = URL.createObjectURL(archive);
+          link.download = format === 'site' ? `${name}-kiosk.zip` : `${name}${BUNDLE_EXTENSION}`;
+          link.click();
+          setTimeout(() => URL.revokeObjectURL(link.href), 0);
+      } catch (e) {
+          console.error('Failed to export project:', e);
+          toast.error('Could not export the project', { description: 'Check the connection and try again.' });
+      } finally {
+          setBundleTask(null);
+      }
+  };
+
+  const handleImportProject = async (file: File) => {
+      if (!session?.access_token || bundleTask) return;
+
+      const label = `Importing ${file.name}`;
+      setBundleTask({ label, progress: { done: 0, total: 0 } });
+      try {
+          const imported = await importProjectBundle(session.access_token, session.user.id, file, progress => setBundleTask({ label, progress }));
+          // Not saved yet, so the auto-save creates it on the server
+          const hydrated = await refreshProjectUrls(imported as Project, session.access_token);
+          setProjects(prev => [...prev, hydrated]);
+          toast.success(`Imported "${hydrated.title}"`);
+      } catch (e) {
+          if (e instanceof BundleError || e instanceof ProjectSchemaError) {
+              toast.error(`Could not import ${file.name}`, { description: e.message });
+          } else {
+              console.error('Failed to import project:', e);
+              toast.error(`Could not import ${file.name}`, { description: 'Check the connection and try again.' });
+          }
+      } finally {
+          setBundleTask(null);
+      }
   };
 
   const handleShare = () => {
@@ -1412,8 +2507,9 @@ export const SoundMapApp = () => {
               <Button variant="outline" onClick={() => window.location.href = window.location.pathname}>Return Home</Button>
           </div>
       );
+      if (accessCodePrompt) return <AccessCodeScreen error={accessCodePrompt.error} isChecking={isCheckingCode} onSubmit={handleAccessCode} />;
       if (!sharedProject) return <div className="flex h-screen items-center justify-center text-slate-500 bg-slate-900 text-white">Loading experience...</div>;
-      return <PlayerView project={sharedProject} onBack={() => { window.location.href = window.location.pathname; }} isShared={true} />;
+      return <PlayerView project={sharedProject} onBack={() => { window.location.href = window.location.pathname; }} isShared={true} shareId={new URLSearchParams(window.location.search).get('s') ?? undefined} />;
   }
 
   if (!session) {
@@ -1434,20 +2530,41 @@ export const SoundMapApp = () => {
             onClose={handleTourClose}
         />
         {view === 'gallery' && (
-             <GalleryView projects={projects} onCreate={handleCreateProject} onSelect={(id) => { setCurrentProjectId(id); setView('editor'); }} onDelete={handleDeleteProject} onProfile={() => setView('profile')} isLoading={isLoadingProjects} session={session} />
+             <GalleryView
+                projects={projects}
+                onCreate={handleNewProject}
+                onSelect={(id) => { setCurrentProjectId(id); setView('editor'); }} onDelete={handleDeleteProject} onDuplicate={handleDuplicateProject} onSaveTemplate={handleSaveTemplate} onExport={handleExportProject} onImport={handleImportProject} bundleTask={bundleTask} onProfile={() => setView('profile')} isLoading={isLoadingProjects} session={session} />
         )}
+        <TemplatePicker
+            open={isTemplatePickerOpen}
+            onOpenChange={setIsTemplatePickerOpen}
+            templates={templates}
+            isCreating={isCreatingProject}
+            onChoose={handleCreateProject}
+            onDelete={handleDeleteTemplate}
+        />
         {view === 'player' && currentProject && (
              <PlayerView project={currentProject} onBack={() => setView('editor')} />
         )}
         {view === 'editor' && currentProject && (
              <EditorView 
-                project={currentProject} 
-                onUpdate={handleUpdateProject} 
+                project={sceneView(currentProject, currentSceneId)} 
+                scenes={listScenes(currentProject)}
+                sceneId={currentSceneId}
+                onSelectScene={setCurrentSceneId}
+                onAddScene={handleAddScene}
+                onRenameScene={handleRenameScene}
+                onDeleteScene={handleDeleteScene}
+                onUpdate={handleUpdateScene} 
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={history.past.length > 0}
+                canRedo={history.future.length > 0}
                 onBack={() => setView('gallery')} 
                 onPreview={() => {
-                    // Check for zones without audio
-                    const zonesWithoutAudio = currentProject.hotspots
-                        .filter(h => !h.audioUrl)
+                    // Check for zones without audio; zones leading to another scene may do without
+                    const zonesWithoutAudio = allHotspots(currentProject)
+                        .filter(h => !h.audioUrl && !h.targetSceneId)
                         .map((h, index) => h.name || `Zone ${index + 1}`);
                     
                     if (zonesWithoutAudio.length > 0) {
@@ -1460,6 +2577,10 @@ export const SoundMapApp = () => {
                 }} 
                 session={session}
                 onShare={handleShare}
+                publications={publications}
+                isDraftSaved={isDraftSaved}
+                isPublishing={isPublishing}
+                onPublish={handlePublish}
                 openUploadModal={openUploadModal}
                 setNarrationModalOpen={setNarrationModalOpen}
                 tourStepIndex={tourStepIndex}
@@ -1528,6 +2649,28 @@ export const SoundMapApp = () => {
                 </AlertDialogFooter>
             </AlertDialogContent>
         </AlertDialog>
+
+        {/* Save conflict: stays open until one of the options is chosen */}
+        <AlertDialog open={!!saveConflict}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle className="flex items-center gap-2">
+                        <AlertTriangle className="w-5 h-5 text-amber-500" />
+                        Changed Somewhere Else
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                        "{saveConflict?.local.title}" was saved from another tab or device
+                        {saveConflict?.server.updatedAt ? ` at ${new Date(saveConflict.server.updatedAt).toLocaleString()}` : ''} after you opened it.
+                        Your latest changes have not been saved. Which version do you want to keep?
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter className="gap-2 sm:gap-2">
+                    <Button variant="outline" onClick={handleConflictReload}>Load Other Version</Button>
+                    <Button variant="outline" onClick={handleConflictKeepBoth}>Keep Both</Button>
+                    <Button className="bg-indigo-600 hover:bg-indigo-700 text-white" onClick={handleConflictOverwrite}>Overwrite With Mine</Button>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
       </>
   );
 };
@@ -1536,7 +2679,11 @@ export const SoundMapApp = () => {
 // GALLERY VIEW
 // ---------------------------------------------------------------------------
 
-const GalleryView = ({ projects, onCreate, onSelect, onDelete, onProfile, isLoading, session }: { projects: Project[], onCreate: () => void, onSelect: (id: string) => void, onDelete: (id: string) => void, onProfile: () => void, isLoading: boolean, session: any }) => {
+const GalleryView = ({ projects, onCreate, onSelect, onDelete, onDuplicate, onSaveTemplate, onExport, onImport, bundleTask, onProfile, isLoading, session }: { projects: Project[], onCreate: () => void, onSelect: (id: string) => void, onDelete: (id: string) => void, onDuplicate: (id: string) => void, onSaveTemplate: (id: string, name: string) => void, onExport: (id: string, format: 'bundle' | 'site') => void, onImport: (file: File) => void, bundleTask: { label: string; progress: BundleProgress } | null, onProfile: () => void, isLoading: boolean, session: any }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [templateSource, setTemplateSource] = useState<Project | null>(null); // Project being saved as a template
+  const [templateName, setTemplateName] = useState('');
+
   return (
     <div className="min-h-screen bg-slate-50 p-8">
       <div className="max-w-6xl mx-auto">
@@ -1550,6 +2697,21 @@ const GalleryView = ({ projects, onCreate, onSelect, onDelete, onProfile, isLoad
                 <UserIcon className="w-7 h-7 sm:w-6 sm:h-6 shrink-0" />
                 <span className="hidden sm:inline text-sm font-medium">{session?.user?.user_metadata?.full_name || session?.user?.email?.split('@')[0] || 'User'}</span>
             </Button>
+            <input
+                ref={importInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) onImport(file);
+                }}
+            />
+            <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={!!bundleTask} className="h-12 sm:h-10 px-3 sm:px-4 shrink-0" title="Import a project bundle">
+                <FileUp className="w-5 h-5 sm:mr-2" />
+                <span className="hidden sm:inline">Import</span>
+            </Button>
             <Button 
                 id="tour-create-project"
                 onClick={onCreate} 
@@ -1560,6 +2722,15 @@ const GalleryView = ({ projects, onCreate, onSelect, onDelete, onProfile, isLoad
             </Button>
           </div>
         </div>
+        {bundleTask && (
+            <div className="mb-6 bg-white border rounded-lg p-4 space-y-2" role="status">
+                <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-slate-700"><Loader2 className="w-4 h-4 animate-spin text-indigo-600" /> {bundleTask.label}</span>
+                    {bundleTask.progress.total > 0 && <span className="text-slate-500">{bundleTask.progress.done} of {bundleTask.progress.total} files</span>}
+                </div>
+                <Progress value={bundleTask.progress.total ? (bundleTask.progress.done / bundleTask.progress.total) * 100 : 0} aria-label={bundleTask.label} />
+            </div>
+        )}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
           {isLoading ? (
              <div className="col-span-full flex flex-col items-center justify-center py-20 text-slate-500">
@@ -1581,13 +2752,25 @@ const GalleryView = ({ projects, onCreate, onSelect, onDelete, onProfile, isLoad
                 <div className="flex items-center justify-between">
                     <div onClick={() => onSelect(project.id)} className="flex-1">
                         <h3 className="font-semibold text-slate-800 truncate">{project.title}</h3>
-                        <p className="text-xs text-slate-500 mt-1">{project.hotspots.length} zones • {project.globalChannels?.length || 0} channels</p>
+                        <p className="text-xs text-slate-500 mt-1">{project.scenes?.length ? `${project.scenes.length + 1} scenes • ` : ''}{allHotspots(project).length} zones • {project.globalChannels?.length || 0} channels</p>
                     </div>
                     <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                             <Button variant="ghost" size="icon" className="h-8 w-8"><MoreVertical className="w-4 h-4" /></Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                            <DropdownMenuItem onSelect={() => onDuplicate(project.id)}>
+                                <Copy className="w-4 h-4 mr-2" /> Duplicate
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => { setTemplateName(project.title); setTemplateSource(project); }}>
+                                <LayoutTemplate className="w-4 h-4 mr-2" /> Save as Template
+                            </DropdownMenuItem>
+                            <DropdownMenuItem disabled={!!bundleTask} onSelect={() => onExport(project.id, 'bundle')}>
+                                <Download className="w-4 h-4 mr-2" /> Export
+                            </DropdownMenuItem>
+                            <DropdownMenuItem disabled={!!bundleTask} onSelect={() => onExport(project.id, 'site')}>
+                                <Globe className="w-4 h-4 mr-2" /> Export for Kiosk (HTML)
+                            </DropdownMenuItem>
                             <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                     <DropdownMenuItem className="text-red-600" onSelect={(e) => e.preventDefault()}>
@@ -1622,10 +2805,93 @@ const GalleryView = ({ projects, onCreate, onSelect, onDelete, onProfile, isLoad
           )}
         </div>
       </div>
+      <Dialog open={!!templateSource} onOpenChange={(open) => { if (!open) setTemplateSource(null); }}>
+          <DialogContent>
+              <DialogHeader>
+                  <DialogTitle>Save as Template</DialogTitle>
+                  <DialogDescription>New projects made from it start with this image, its zones, channels and sounds.</DialogDescription>
+              </DialogHeader>
+              <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                      e.preventDefault();
+                      if (!templateSource || !templateName.trim()) return;
+                      onSaveTemplate(templateSource.id, templateName.trim());
+                      setTemplateSource(null);
+                  }}
+              >
+                  <div className="space-y-2">
+                      <Label htmlFor="template-name">Template Name</Label>
+                      <Input id="template-name" value={templateName} maxLength={200} onChange={(e) => setTemplateName(e.target.value)} autoFocus />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" onClick={() => setTemplateSource(null)}>Cancel</Button>
+                      <Button type="submit" disabled={!templateName.trim()} className="bg-indigo-600 hover:bg-indigo-700 text-white">Save Template</Button>
+                  </div>
+              </form>
+          </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
+// Shown by "New Project": a blank project, a built-in starter or one of the
+// user's own templates
+const TemplatePicker = ({ open, onOpenChange, templates, isCreating, onChoose, onDelete }: { open: boolean, onOpenChange: (open: boolean) => void, templates: ProjectTemplate[], isCreating: boolean, onChoose: (template: StarterTemplate | ProjectTemplate | null) => void, onDelete: (id: string) => void }) => {
+    const option = (key: string, title: string, detail: string, onClick: () => void, onRemove?: () => void) => (
+        <div key={key} className="relative">
+            <button
+                type="button"
+                onClick={onClick}
+                disabled={isCreating}
+                className="w-full text-left border rounded-lg p-3 hover:border-indigo-400 hover:bg-indigo-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 disabled:opacity-50 transition-colors"
+            >
+                <div className={`font-medium text-slate-800 truncate ${onRemove ? 'pr-8' : ''}`}>{title}</div>
+                <div className="text-xs text-slate-500 mt-1">{detail}</div>
+            </button>
+            {onRemove && (
+                <Button variant="ghost" size="icon" className="absolute top-2 right-2 h-7 w-7 text-slate-400 hover:text-red-600" onClick={onRemove} disabled={isCreating} aria-label={`Delete template ${title}`}>
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            )}
+        </div>
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => { if (!isCreating) onOpenChange(next); }}>
+            <DialogContent className="max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>New Project</DialogTitle>
+                    <DialogDescription>Start from scratch or from a template.</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {option('blank', 'Blank Project', 'An empty map.', () => onChoose(null))}
+                        {STARTER_TEMPLATES.map(starter => option(starter.id, starter.name, starter.description, () => onChoose(starter)))}
+                    </div>
+                    {templates.length > 0 && (
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-medium text-slate-700">My Templates</h3>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                {templates.map(template => option(
+                                    template.id,
+                                    template.name,
+                                    `${template.project.scenes?.length ? `${template.project.scenes.length + 1} scenes • ` : ''}${allHotspots(template.project).length} zones • ${template.project.globalChannels?.length ?? 0} channels`,
+                                    () => onChoose(template),
+                                    () => onDelete(template.id)
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {isCreating && (
+                        <p className="flex items-center gap-2 text-sm text-slate-500" role="status"><Loader2 className="w-4 h-4 animate-spin text-indigo-600" /> Copying the template's files…</p>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
 // ---------------------------------------------------------------------------
 // EDITOR VIEW
 // ---------------------------------------------------------------------------
@@ -1635,56 +2901,104 @@ const pointsToSvgPath = (points: Point[]) => {
   return points.map(p => `${p.x},${p.y}`).join(" ");
 };
 
-// Check if two polygons overlap using point-in-polygon and edge intersection tests
-const polygonsOverlap = (poly1: Point[], poly2: Point[]): boolean => {
-  // Check if any point of poly1 is inside poly2
-  const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
-    let inside = false;
-    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-      const xi = polygon[i].x, yi = polygon[i].y;
-      const xj = polygon[j].x, yj = polygon[j].y;
-      
-      const intersect = ((yi > point.y) !== (yj > point.y))
-        && (point.x < (xj - xi) * (point.y - yi) / (yj - yi) + xi);
-      if (intersect) inside = !inside;
-    }
-    return inside;
-  };
+// An in-progress drag while editing a zone's outline
+type ShapeDrag =
+  | { kind: 'vertex'; index: number }
+  | { kind: 'move'; origin: Point; original: Point[] }
+  | { kind: 'scale'; anchor: Point; origin: Point; original: Point[] };
 
-  // Check if any point of poly1 is in poly2
-  for (const point of poly1) {
-    if (isPointInPolygon(point, poly2)) return true;
-  }
+// Smallest fraction of its size a zone can be scaled down to in one drag
+const MIN_SHAPE_SCALE = 0.05;
 
-  // Check if any point of poly2 is in poly1
-  for (const point of poly2) {
-    if (isPointInPolygon(point, poly1)) return true;
-  }
+type DrawTool = 'freehand' | 'rectangle' | 'ellipse' | 'polygon';
+
+const DRAW_TOOLS: { id: DrawTool; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { id: 'freehand', label: 'Freehand', icon: PenLine },
+  { id: 'rectangle', label: 'Rectangle', icon: Square },
+  { id: 'ellipse', label: 'Ellipse', icon: Circle },
+  { id: 'polygon', label: 'Polygon (click to place points)', icon: Pentagon },
+];
+
+// Distances below are in % of the image
+const DRAW_THRESHOLD = 0.8;          // Mouse travel before a press counts as drawing
+const FREEHAND_TOLERANCE = 0.4;      // How far a simplified stroke may stray from the original
+const CLOSE_POLYGON_DISTANCE = 1.5;  // Clicking this close to the first point closes the polygon
+const MIN_SHAPE_SIZE = 1;            // Smallest rectangle/ellipse width and height
 
-  // Check if any edges intersect
-  const doEdgesIntersect = (p1: Point, p2: Point, p3: Point, p4: Point): boolean => {
-    const ccw = (A: Point, B: Point, C: Point) => {
-      return (C.y - A.y) * (B.x - A.x) > (B.y - A.y) * (C.x - A.x);
+// Tabs along the bottom of the canvas: switch, add, rename and delete scenes
+const SceneList = ({ scenes, sceneId, onSelect, onAdd, onRename, onDelete }: { scenes: { id: string, name: string }[], sceneId: string, onSelect: (id: string) => void, onAdd: () => void, onRename: (id: string, name: string) => void, onDelete: (id: string) => void }) => {
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const startRename = (scene: { id: string, name: string }) => {
+        setDraftName(scene.name);
+        setRenamingId(scene.id);
     };
-    return ccw(p1, p3, p4) !== ccw(p2, p3, p4) && ccw(p1, p2, p3) !== ccw(p1, p2, p4);
-  };
 
-  for (let i = 0; i < poly1.length; i++) {
-    const p1 = poly1[i];
-    const p2 = poly1[(i + 1) % poly1.length];
-    
-    for (let j = 0; j < poly2.length; j++) {
-      const p3 = poly2[j];
-      const p4 = poly2[(j + 1) % poly2.length];
-      
-      if (doEdgesIntersect(p1, p2, p3, p4)) return true;
-    }
-  }
+    const finishRename = () => {
+        const name = draftName.trim();
+        if (renamingId && name) onRename(renamingId, name);
+        setRenamingId(null);
+    };
 
-  return false;
+    return (
+        <div className="absolute bottom-20 lg:bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 bg-white rounded-md border shadow-sm p-1 max-w-[calc(100%-2rem)] overflow-x-auto">
+            <div className="flex items-center gap-1" role="tablist" aria-label="Scenes">
+                {scenes.map(scene => renamingId === scene.id ? (
+                    <Input
+                        key={scene.id}
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={finishRename}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') finishRename();
+                            if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="h-8 w-36"
+                        aria-label="Scene name"
+                    />
+                ) : (
+                    <Button
+                        key={scene.id}
+                        size="sm"
+                        variant="ghost"
+                        role="tab"
+                        aria-selected={scene.id === sceneId}
+                        className={`h-8 whitespace-nowrap ${scene.id === sceneId ? 'bg-indigo-50 text-indigo-600 hover:bg-indigo-50' : 'text-slate-600'}`}
+                        onClick={() => onSelect(scene.id)}
+                        onDoubleClick={() => startRename(scene)}
+                        title="Double-click to rename"
+                    >
+                        {scene.name}
+                    </Button>
+                ))}
+            </div>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button size="icon" variant="ghost" className="h-8 w-8 text-slate-500" aria-label="Scene options">
+                        <MoreVertical className="w-4 h-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => startRename(scenes.find(s => s.id === sceneId) ?? scenes[0])}>
+                        <Edit3 className="w-4 h-4 mr-2" /> Rename Scene
+                    </DropdownMenuItem>
+                    {sceneId !== MAIN_SCENE_ID && (
+                        <DropdownMenuItem className="text-red-600" onClick={() => onDelete(sceneId)}>
+                            <Trash2 className="w-4 h-4 mr-2" /> Delete Scene
+                        </DropdownMenuItem>
+                    )}
+                </DropdownMenuContent>
+            </DropdownMenu>
+            <Button size="sm" variant="ghost" className="h-8 whitespace-nowrap text-slate-600" onClick={onAdd} disabled={scenes.length > MAX_SCENES}>
+                <Plus className="w-4 h-4 mr-1" /> Scene
+            </Button>
+        </div>
+    );
 };
 
-const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, openUploadModal, setNarrationModalOpen, tourStepIndex, setTourStepIndex, showOnboarding }: { project: Project, onUpdate: (p: Project | ((prev: Project) => Project)) => void, onBack: () => void, onPreview: () => void, session: any, onShare?: () => void, openUploadModal: (type: 'hotspot' | 'channel', id: string) => void, setNarrationModalOpen: (open: boolean) => void, tourStepIndex?: number, setTourStepIndex?: (index: number) => void, showOnboarding?: boolean }) => {
+const EditorView = ({ project, scenes, sceneId, onSelectScene, onAddScene, onRenameScene, onDeleteScene, onUpdate, onUndo, onRedo, canUndo, canRedo, onBack, onPreview, session, onShare, publications, isDraftSaved, isPublishing, onPublish, openUploadModal, setNarrationModalOpen, tourStepIndex, setTourStepIndex, showOnboarding }: { project: Project, scenes: { id: string, name: string }[], sceneId: string, onSelectScene: (id: string) => void, onAddScene: () => void, onRenameScene: (id: string, name: string) => void, onDeleteScene: (id: string) => void, onUpdate: (p: Project | ((prev: Project) => Project)) => void, onUndo: () => void, onRedo: () => void, canUndo: boolean, canRedo: boolean, onBack: () => void, onPreview: () => void, session: any, onShare?: () => void, publications: Publication[], isDraftSaved: boolean, isPublishing: boolean, onPublish: () => void, openUploadModal: (type: UploadTargetType, id: string) => void, setNarrationModalOpen: (open: boolean) => void, tourStepIndex?: number, setTourStepIndex?: (index: number) => void, showOnboarding?: boolean }) => {
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
   const [selectedHotspotId, setSelectedHotspotId] = useState<string | null>(null);
@@ -1692,9 +3006,6 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
   // Drawer state for mobile
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   
-  // Overlap warning state
-  const [showOverlapWarning, setShowOverlapWarning] = useState(false);
-  
   // Canvas highlight state for "Add Zones" prompt
   const [isCanvasHighlighted, setIsCanvasHighlighted] = useState(false);
   
@@ -1721,9 +3032,52 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
   // Focused zone state for keyboard navigation
   const [focusedZoneId, setFocusedZoneId] = useState<string | null>(null);
   
+  // Shape editing for the selected zone. The draft holds the outline while dragging;
+  // `transform` is set for moves and resizes so nested zones follow along.
+  const [isEditingShape, setIsEditingShape] = useState(false);
+  const [shapeDraft, setShapeDraft] = useState<{ points: Point[]; transform: ((points: Point[]) => Point[]) | null } | null>(null);
+  const [activeVertex, setActiveVertex] = useState<number | null>(null);
+  const shapeDragRef = useRef<ShapeDrag | null>(null);
+  
+  // Drawing tools. `polygonDraft` holds the points placed so far with the polygon tool.
+  const [drawTool, setDrawTool] = useState<DrawTool>('freehand');
+  const [polygonDraft, setPolygonDraft] = useState<Point[]>([]);
+  const [cursorPoint, setCursorPoint] = useState<Point | null>(null);
+  const drawStartRef = useRef<{ point: Point; onZone: boolean } | null>(null);
+  const suppressZoneClickRef = useRef(false);
+  
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
+  const selectedHotspot = project.hotspots.find(h => h.id === selectedHotspotId);
+  const editPoints = shapeDraft?.points ?? selectedHotspot?.points ?? [];
+
+  // Zones as they would be with the current shape edit applied
+  const draftZones = useMemo(() => {
+      if (!shapeDraft || !selectedHotspotId) return project.hotspots;
+      const descendants = shapeDraft.transform ? getDescendantIds(project.hotspots, selectedHotspotId) : new Set<string>();
+      return project.hotspots.map(h => {
+          if (h.id === selectedHotspotId) return { ...h, points: shapeDraft.points };
+          if (descendants.has(h.id)) return { ...h, points: shapeDraft.transform!(h.points) };
+          return h;
+      });
+  }, [project.hotspots, shapeDraft, selectedHotspotId]);
+
+  const shapeError = shapeDraft && selectedHotspotId ? validateZoneLayering(draftZones, selectedHotspotId) : null;
+
+  // Leave edit mode whenever the selection changes
+  useEffect(() => {
+      setIsEditingShape(false);
+  }, [selectedHotspotId]);
+
+  useEffect(() => {
+      if (!isEditingShape) {
+          shapeDragRef.current = null;
+          setShapeDraft(null);
+          setActiveVertex(null);
+      }
+  }, [isEditingShape]);
+
   // Collapse all background channels when project loads or changes
   useEffect(() => {
       if (project?.globalChannels) {
@@ -1765,6 +3119,12 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
           setTourStepIndex?.(6);
       }
   }, [selectedHotspotId, showOnboarding, tourStepIndex, setTourStepIndex]);
+
+  // A zone selected in one scene isn't on the next one's image
+  useEffect(() => {
+      setSelectedHotspotId(null);
+      setIsEditingShape(false);
+  }, [sceneId]);
   
   // Initialize existing channels as collapsed (but not new ones)
   useEffect(() => {
@@ -1909,56 +3269,259 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
     };
   };
 
-  const handleStartDrawing = (e: React.MouseEvent) => {
-    if (!project.imageUrl) return;
-    if ((e.target as Element).tagName === 'polygon') return;
-    setIsDrawing(true);
+  const createZone = (points: Point[]) => {
+    // New zones go on top; one drawn entirely inside another is nested in it.
+    // Overlapping is only allowed that way, so a half-covered zone is refused.
+    const parent = findContainingZone(points, project.hotspots);
+    const overlapped = findOverlappingZone({ id: '', points, parentId: parent?.id ?? null }, project.hotspots);
+    if (overlapped) {
+        toast.error(`The new zone overlaps ${overlapped.name}`, {
+            description: "Zones can only overlap when one is drawn entirely inside another.",
+        });
+        return;
+    }
+
+    const newHotspot: Hotspot = {
+        id: crypto.randomUUID(),
+        points,
+        audioFile: null,
+        audioUrl: null,
+        name: `Zone ${project.hotspots.length + 1}`,
+        color: COLORS[Math.floor(Math.random() * COLORS.length)],
+        settings: { volume: 1, pan: 0, loop: false, fadeIn: 0.5, fadeOut: 0.5 },
+        parentId: parent?.id ?? null
+    };
+    onUpdate({ ...project, hotspots: [...project.hotspots, newHotspot] });
+    handleSetSelectedHotspotId(newHotspot.id);
+    // The click that ends the stroke must not select the zone it was drawn on
+    suppressZoneClickRef.current = true;
+    // Auto open drawer on mobile if new hotspot created
+    if (window.innerWidth < 1024) setIsDrawerOpen(true);
+  };
+
+  const beginNewShape = () => {
     setIsCanvasHighlighted(false); // Clear highlight when starting to draw
-    const point = getRelativeCoordinates(e);
-    setCurrentPoints([point]);
     handleSetSelectedHotspotId(null);
     engine.stopAll();
   };
 
+  const handleStartDrawing = (e: React.MouseEvent) => {
+    if (!project.imageUrl) return;
+    suppressZoneClickRef.current = false;
+    if (isEditingShape) {
+        // Clicking the canvas finishes shape editing instead of drawing
+        setIsEditingShape(false);
+        return;
+    }
+    const point = getRelativeCoordinates(e);
+    if (drawTool === 'polygon') {
+        handlePolygonClick(point);
+        return;
+    }
+    // Pressing on a zone only starts drawing once the mouse moves; a plain click selects it
+    drawStartRef.current = { point, onZone: (e.target as Element).tagName === 'polygon' };
+    setIsDrawing(true);
+    setCurrentPoints([]);
+  };
+
   const handleDrawMove = (e: React.MouseEvent) => {
-    if (!isDrawing) return;
-    setCurrentPoints(prev => [...prev, getRelativeCoordinates(e)]);
+    if (drawTool === 'polygon') {
+        if (polygonDraft.length > 0) setCursorPoint(getRelativeCoordinates(e));
+        return;
+    }
+    const start = drawStartRef.current?.point;
+    if (!isDrawing || !start) return;
+    const point = getRelativeCoordinates(e);
+
+    if (currentPoints.length === 0) {
+        if (Math.hypot(point.x - start.x, point.y - start.y) < DRAW_THRESHOLD) return;
+        beginNewShape();
+    }
+
+    if (drawTool === 'rectangle') {
+        setCurrentPoints(rectanglePoints(start, point));
+    } else if (drawTool === 'ellipse') {
+        setCurrentPoints(ellipsePoints(start, point));
+    } else {
+        setCurrentPoints(prev => prev.length === 0 ? [start, point] : [...prev, point]);
+    }
   };
 
   const handleStopDrawing = () => {
     if (!isDrawing) return;
-    if (currentPoints.length > 5) {
-        // Check if new selection overlaps with any existing hotspots
-        const hasOverlap = project.hotspots.some(hotspot => 
-            polygonsOverlap(currentPoints, hotspot.points)
-        );
-
-        if (hasOverlap) {
-            // Show popup alert and don't create the hotspot
-            setShowOverlapWarning(true);
-            setIsDrawing(false);
-            setCurrentPoints([]);
-            return;
+    const start = drawStartRef.current;
+    if (currentPoints.length === 0) {
+        // A plain click on the empty canvas clears the selection
+        if (start && !start.onZone) {
+            handleSetSelectedHotspotId(null);
+            engine.stopAll();
+        }
+    } else if (drawTool === 'freehand') {
+        if (currentPoints.length > 5) {
+            const outline = simplifyPath(currentPoints, FREEHAND_TOLERANCE);
+            if (outline.length >= 3) createZone(outline);
+        }
+    } else {
+        const bounds = polygonBounds(currentPoints);
+        if (bounds.maxX - bounds.minX >= MIN_SHAPE_SIZE && bounds.maxY - bounds.minY >= MIN_SHAPE_SIZE) {
+            createZone(currentPoints);
         }
-
-        const newHotspot: Hotspot = {
-            id: crypto.randomUUID(),
-            points: currentPoints,
-            audioFile: null,
-            audioUrl: null,
-            name: `Zone ${project.hotspots.length + 1}`,
-            color: COLORS[Math.floor(Math.random() * COLORS.length)],
-            settings: { volume: 1, pan: 0, loop: false, fadeIn: 0.5, fadeOut: 0.5 }
-        };
-        onUpdate({ ...project, hotspots: [...project.hotspots, newHotspot] });
-        handleSetSelectedHotspotId(newHotspot.id);
-        // Auto open drawer on mobile if new hotspot created
-        if (window.innerWidth < 1024) setIsDrawerOpen(true);
     }
+    drawStartRef.current = null;
     setIsDrawing(false);
     setCurrentPoints([]);
   };
 
+  const handlePolygonClick = (point: Point) => {
+    const first = polygonDraft[0];
+    const last = polygonDraft[polygonDraft.length - 1];
+    if (first && polygonDraft.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= CLOSE_POLYGON_DISTANCE) {
+        finishPolygon();
+        return;
+    }
+    // The presses of a double-click land on the same spot; keep just one point
+    if (last && Math.hypot(point.x - last.x, point.y - last.y) < DRAW_THRESHOLD) return;
+    if (polygonDraft.length === 0) beginNewShape();
+    setPolygonDraft(prev => [...prev, point]);
+  };
+
+  const finishPolygon = () => {
+    if (polygonDraft.length >= 3) createZone(polygonDraft);
+    setPolygonDraft([]);
+    setCursorPoint(null);
+  };
+
+  const cancelPolygon = () => {
+    setPolygonDraft([]);
+    setCursorPoint(null);
+  };
+
+  const selectDrawTool = (tool: DrawTool) => {
+    cancelPolygon();
+    setIsEditingShape(false);
+    setDrawTool(tool);
+  };
+
+  useEffect(() => {
+      if (drawTool !== 'polygon' || polygonDraft.length === 0) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if ((e.target as HTMLElement).closest('input, textarea, [contenteditable="true"]')) return;
+          if (e.key === 'Enter') {
+              e.preventDefault();
+              finishPolygon();
+          } else if (e.key === 'Escape') {
+              cancelPolygon();
+          } else if (e.key === 'Backspace' || e.key === 'Delete') {
+              e.preventDefault();
+              setPolygonDraft(prev => prev.slice(0, -1));
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawTool, polygonDraft, project.hotspots]);
+
+  // Checks an edited layout against the nesting rules and saves the outlines that changed
+  const saveShapeEdit = (zones: Hotspot[], id: string): boolean => {
+      const error = validateZoneLayering(zones, id);
+      if (error) {
+          toast.error(error);
+          return false;
+      }
+      const changed = new Map(zones.filter((h, i) => h !== project.hotspots[i]).map(h => [h.id, h.points]));
+      onUpdate(p => ({ ...p, hotspots: p.hotspots.map(h => changed.has(h.id) ? { ...h, points: changed.get(h.id)! } : h) }));
+      return true;
+  };
+
+  const beginShapeDrag = (e: React.MouseEvent, drag: ShapeDrag, points: Point[] = editPoints) => {
+      e.preventDefault();
+      e.stopPropagation();
+      shapeDragRef.current = drag;
+      setShapeDraft({ points, transform: null });
+  };
+
+  const handleShapeDragMove = (e: React.MouseEvent) => {
+      const drag = shapeDragRef.current;
+      if (!drag) return;
+      const point = clampToImage(getRelativeCoordinates(e));
+
+      if (drag.kind === 'vertex') {
+          setShapeDraft(prev => prev && { ...prev, points: prev.points.map((p, i) => i === drag.index ? point : p) });
+      } else if (drag.kind === 'move') {
+          const offset = clampTranslation(drag.original, point.x - drag.origin.x, point.y - drag.origin.y);
+          const transform = (points: Point[]) => translatePolygon(points, offset.x, offset.y);
+          setShapeDraft({ points: transform(drag.original), transform });
+      } else {
+          // Scale relative to the opposite corner; never flip the shape inside out
+          const spanX = drag.origin.x - drag.anchor.x;
+          const spanY = drag.origin.y - drag.anchor.y;
+          const sx = spanX === 0 ? 1 : Math.max(MIN_SHAPE_SCALE, (point.x - drag.anchor.x) / spanX);
+          const sy = spanY === 0 ? 1 : Math.max(MIN_SHAPE_SCALE, (point.y - drag.anchor.y) / spanY);
+          const transform = (points: Point[]) => scalePolygon(points, drag.anchor, sx, sy);
+          setShapeDraft({ points: transform(drag.original), transform });
+      }
+  };
+
+  const endShapeDrag = () => {
+      if (!shapeDragRef.current) return;
+      shapeDragRef.current = null;
+      // A click without any movement leaves the zone untouched
+      if (shapeDraft && selectedHotspot && shapeDraft.points !== selectedHotspot.points) {
+          saveShapeEdit(draftZones, selectedHotspot.id);
+      }
+      setShapeDraft(null);
+  };
+
+  const insertVertex = (e: React.MouseEvent, index: number, point: Point) => {
+      setActiveVertex(index);
+      beginShapeDrag(e, { kind: 'vertex', index }, [...editPoints.slice(0, index), point, ...editPoints.slice(index)]);
+  };
+
+  const deleteVertex = (index: number) => {
+      if (!selectedHotspot) return;
+      if (editPoints.length <= 3) {
+          toast.error('A zone needs at least three points.');
+          return;
+      }
+      const points = editPoints.filter((_, i) => i !== index);
+      if (saveShapeEdit(project.hotspots.map(h => h.id === selectedHotspot.id ? { ...h, points } : h), selectedHotspot.id)) {
+          setActiveVertex(null);
+      }
+  };
+
+  useEffect(() => {
+      if (!isEditingShape) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if ((e.target as HTMLElement).closest('input, textarea, [contenteditable="true"]')) return;
+          if (e.key === 'Escape') {
+              setIsEditingShape(false);
+          } else if ((e.key === 'Delete' || e.key === 'Backspace') && activeVertex !== null) {
+              e.preventDefault();
+              deleteVertex(activeVertex);
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditingShape, activeVertex, editPoints, project.hotspots]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep their own undo.
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          if ((e.target as HTMLElement).closest('input, textarea, [contenteditable="true"]')) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z') {
+              e.preventDefault();
+              if (e.shiftKey) onRedo();
+              else onUndo();
+          } else if (key === 'y') {
+              e.preventDefault();
+              onRedo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
   const addGlobalChannel = () => {
       // Instead of creating the channel immediately, just open the modal with a special marker
       openUploadModal('channel', 'new');
@@ -1980,6 +3543,11 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
       setCollapsedIntroAudio(prev => !prev);
   };
 
+  // Whether visitors see what the editor shows
+  const latestPublication = publications[0];
+  const isPublished = !!latestPublication && isDraftSaved && latestPublication.draftVersion === project.version;
+  const publishStatus = !latestPublication ? 'Not published' : isPublished ? `Published · v${latestPublication.number}` : 'Unpublished changes';
+
   return (
     <div className="h-screen flex flex-col bg-white">
       <header className="bg-white border-b px-4 py-3 flex items-center justify-between shrink-0 z-20 gap-3">
@@ -1992,6 +3560,32 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
             />
         </div>
         <div className="flex items-center gap-3">
+            <div className="flex items-center">
+                <Button variant="ghost" size="icon" className="h-9 w-9" onClick={onUndo} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)">
+                    <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-9 w-9" onClick={onRedo} disabled={!canRedo} aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+                    <Redo2 className="w-4 h-4" />
+                </Button>
+            </div>
+            <div className="hidden md:flex items-center gap-2">
+                <span
+                    className={`text-xs whitespace-nowrap ${latestPublication && !isPublished ? 'text-amber-600' : 'text-slate-500'}`}
+                    role="status"
+                >
+                    {publishStatus}
+                </span>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9"
+                    onClick={onPublish}
+                    disabled={!isDraftSaved || isPublished || isPublishing}
+                    title={isDraftSaved ? 'Publish the current draft to your share links' : 'Saving…'}
+                >
+                    {isPublishing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Globe className="w-4 h-4 mr-2" />} Publish
+                </Button>
+            </div>
             <Dialog>
                 <DialogTrigger asChild>
                      <Button variant="outline" size="sm" className="hidden sm:flex h-9" id="tour-share-btn" onClick={onShare}>
@@ -2003,7 +3597,7 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
                         <DialogTitle>Share Project</DialogTitle>
                         <DialogDescription>Anyone with this link can view and play your sound map. Perfect for tablets.</DialogDescription>
                     </DialogHeader>
-                    <ShareDialogContent session={session} project={project} />
+                    <ShareDialogContent session={session} project={project} publications={publications} />
                 </DialogContent>
             </Dialog>
 
@@ -2017,6 +3611,50 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
       <div className="flex-1 overflow-hidden flex flex-col lg:flex-row relative">
         {/* Canvas Area - Takes full height on mobile */}
         <div className="flex-1 bg-slate-100 relative overflow-hidden flex items-center justify-center p-4 lg:p-8 select-none h-full">
+            {project.imageUrl && (
+                <div className="absolute top-4 left-4 z-10 flex items-center gap-2">
+                    <div className="flex items-center bg-white rounded-md border shadow-sm p-0.5" role="toolbar" aria-label="Drawing tools">
+                        {DRAW_TOOLS.map(tool => (
+                            <Button
+                                key={tool.id}
+                                size="icon"
+                                variant="ghost"
+                                className={`h-8 w-8 ${drawTool === tool.id ? 'bg-indigo-50 text-indigo-600 hover:bg-indigo-50' : 'text-slate-500'}`}
+                                onClick={() => selectDrawTool(tool.id)}
+                                aria-pressed={drawTool === tool.id}
+                                aria-label={tool.label}
+                                title={tool.label}
+                            >
+                                <tool.icon className="w-4 h-4" />
+                            </Button>
+                        ))}
+                    </div>
+                    {selectedHotspot && (
+                        <Button
+                            size="sm"
+                            variant={isEditingShape ? "default" : "outline"}
+                            className={isEditingShape ? "bg-indigo-600 hover:bg-indigo-700 text-white" : "bg-white"}
+                            onClick={() => setIsEditingShape(v => !v)}
+                        >
+                            {isEditingShape ? (
+                                <><Check className="w-4 h-4 mr-2" /> Done Editing</>
+                            ) : (
+                                <><Spline className="w-4 h-4 mr-2" /> Edit Shape</>
+                            )}
+                        </Button>
+                    )}
+                    {isEditingShape && (
+                        <span className="hidden md:inline text-xs text-slate-600 bg-white/90 rounded px-2 py-1 shadow-sm">
+                            Drag points to reshape, midpoints to add, double-click or Delete to remove. Drag the zone to move it, corners to resize.
+                        </span>
+                    )}
+                    {drawTool === 'polygon' && !isEditingShape && (
+                        <span className="hidden md:inline text-xs text-slate-600 bg-white/90 rounded px-2 py-1 shadow-sm">
+                            Click to place points. Click the first point, double-click or press Enter to close; Backspace removes the last point.
+                        </span>
+                    )}
+                </div>
+            )}
             {!project.imageUrl ? (
                  <div className="text-center" id="tour-upload-image">
                     <Button asChild size="lg">
@@ -2030,35 +3668,62 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
                 <div 
                     id="tour-canvas-area"
                     ref={imageContainerRef}
-                    className={`relative shadow-2xl transition-all duration-500 ${
+                    className={`relative shadow-2xl transition-all duration-500 ${drawTool !== 'freehand' ? 'cursor-crosshair' : ''} ${
                         isCanvasHighlighted 
                             ? 'ring-4 ring-indigo-500 ring-offset-4 ring-offset-slate-100' 
                             : ''
                     }`}
                     onMouseDown={handleStartDrawing}
-                    onMouseMove={handleDrawMove}
-                    onMouseUp={handleStopDrawing}
-                    onMouseLeave={handleStopDrawing}
+                    onMouseMove={(e) => { handleShapeDragMove(e); handleDrawMove(e); }}
+                    onMouseUp={() => { endShapeDrag(); handleStopDrawing(); }}
+                    onMouseLeave={() => { endShapeDrag(); handleStopDrawing(); setCursorPoint(null); }}
+                    onDoubleClick={() => { if (drawTool === 'polygon') finishPolygon(); }}
                 >
                     <img src={project.imageUrl} className="max-w-full max-h-[85vh] block pointer-events-none select-none" draggable={false} />
                     <svg ref={svgRef} className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
-                        {project.hotspots.map((h) => (
+                        {/* Proximity halos: a stroke twice the radius wide reaches `radius` outside the outline */}
+                        {draftZones.filter(h => (h.settings.proximityRadius ?? 0) > 0).map((h) => (
+                            <polygon
+                                key={`halo-${h.id}`}
+                                points={pointsToSvgPath(h.points)}
+                                fill="none"
+                                stroke={h.color}
+                                strokeOpacity={selectedHotspotId === h.id ? 0.25 : 0.12}
+                                strokeWidth={h.settings.proximityRadius! * 2}
+                                strokeLinejoin="round"
+                                style={{ pointerEvents: 'none' }}
+                                aria-hidden="true"
+                            />
+                        ))}
+                        {draftZones.map((h) => (
                             <polygon
                                 key={h.id}
                                 points={pointsToSvgPath(h.points)}
                                 fill={selectedHotspotId === h.id ? h.color : h.color}
                                 fillOpacity={selectedHotspotId === h.id ? 0.5 : 0.25}
-                                stroke={selectedHotspotId === h.id ? "white" : (focusedZoneId === h.id ? "white" : h.color)}
+                                stroke={selectedHotspotId === h.id ? (shapeError ? "#ef4444" : "white") : (focusedZoneId === h.id ? "white" : h.color)}
                                 strokeWidth={selectedHotspotId === h.id ? "0.8" : (focusedZoneId === h.id ? "1.2" : "0.4")}
+                                strokeDasharray={h.targetSceneId ? "4 3" : undefined} // Leads to another scene
                                 style={{ 
                                     pointerEvents: 'all', 
-                                    cursor: 'pointer', 
+                                    cursor: isEditingShape && selectedHotspotId === h.id ? 'move' : 'pointer', 
                                     vectorEffect: 'non-scaling-stroke',
                                     filter: focusedZoneId === h.id ? 'drop-shadow(0 0 10px rgba(255, 255, 255, 0.9))' : 'none',
                                     outline: 'none'
                                 }}
+                                onMouseDown={(e) => {
+                                    if (isEditingShape && selectedHotspotId === h.id) {
+                                        beginShapeDrag(e, { kind: 'move', origin: clampToImage(getRelativeCoordinates(e)), original: editPoints });
+                                    }
+                                }}
                                 onClick={(e) => { 
                                     e.stopPropagation(); 
+                                    if (isEditingShape && selectedHotspotId === h.id) return;
+                                    // With the polygon tool, or right after drawing over it, a click is not a selection
+                                    if (drawTool === 'polygon' || suppressZoneClickRef.current) {
+                                        suppressZoneClickRef.current = false;
+                                        return;
+                                    }
                                     handleSetSelectedHotspotId(h.id); 
                                     if (h.audioUrl) {
                                         engine.stopAll();
@@ -2087,25 +3752,100 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
                                 }}
                                 tabIndex={0}
                                 role="button"
-                                aria-label={`Audio zone: ${h.name}`}
+                                aria-label={h.targetSceneId ? `Scene link: ${h.name}` : `Audio zone: ${h.name}`}
                             />
                         ))}
-                        {isDrawing && currentPoints.length > 0 && (() => {
-                            const wouldOverlap = currentPoints.length > 5 && project.hotspots.some(hotspot => 
-                                polygonsOverlap(currentPoints, hotspot.points)
-                            );
-                            return (
-                                <polygon 
-                                    points={pointsToSvgPath(currentPoints)} 
-                                    fill={wouldOverlap ? "rgba(239, 68, 68, 0.2)" : "rgba(99, 102, 241, 0.2)"} 
-                                    stroke={wouldOverlap ? "#ef4444" : "#4f46e5"} 
-                                    strokeWidth="0.5" 
-                                />
-                            );
-                        })()}
+                        {isDrawing && currentPoints.length > 0 && (
+                            <polygon 
+                                points={pointsToSvgPath(currentPoints)} 
+                                fill="rgba(99, 102, 241, 0.2)" 
+                                stroke="#4f46e5" 
+                                strokeWidth="0.5" 
+                            />
+                        )}
+                        {polygonDraft.length > 0 && (
+                            <polyline
+                                points={pointsToSvgPath(cursorPoint ? [...polygonDraft, cursorPoint] : polygonDraft)}
+                                fill="rgba(99, 102, 241, 0.2)"
+                                stroke="#4f46e5"
+                                strokeWidth="0.5"
+                                strokeDasharray="1 1"
+                            />
+                        )}
                     </svg>
+                    {polygonDraft.length > 0 && (
+                        <div className="absolute inset-0 pointer-events-none">
+                            {polygonDraft.map((p, i) => (
+                                <div
+                                    key={i}
+                                    className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-indigo-600 ${i === 0 ? 'w-3.5 h-3.5 bg-indigo-600' : 'w-2.5 h-2.5 bg-white'}`}
+                                    style={{ left: `${p.x}%`, top: `${p.y}%` }}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    {isEditingShape && selectedHotspot && editPoints.length > 0 && (() => {
+                        const bounds = polygonBounds(editPoints);
+                        const corners: Point[] = [
+                            { x: bounds.minX, y: bounds.minY },
+                            { x: bounds.maxX, y: bounds.minY },
+                            { x: bounds.maxX, y: bounds.maxY },
+                            { x: bounds.minX, y: bounds.maxY },
+                        ];
+                        const handleStyle = (p: Point) => ({ left: `${p.x}%`, top: `${p.y}%` });
+                        return (
+                            <div className="absolute inset-0 pointer-events-none">
+                                <div
+                                    className="absolute border border-dashed border-indigo-500/70"
+                                    style={{ left: `${bounds.minX}%`, top: `${bounds.minY}%`, width: `${bounds.maxX - bounds.minX}%`, height: `${bounds.maxY - bounds.minY}%` }}
+                                />
+                                {/* Edge midpoints: drag to insert a new point */}
+                                {editPoints.map((p, i) => {
+                                    const next = editPoints[(i + 1) % editPoints.length];
+                                    const mid = { x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 };
+                                    return (
+                                        <div
+                                            key={`mid-${i}`}
+                                            className="absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white/60 border border-indigo-400 cursor-copy pointer-events-auto"
+                                            style={handleStyle(mid)}
+                                            onMouseDown={(e) => insertVertex(e, i + 1, mid)}
+                                            title="Drag to add a point"
+                                        />
+                                    );
+                                })}
+                                {editPoints.map((p, i) => (
+                                    <div
+                                        key={`vertex-${i}`}
+                                        className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 cursor-grab pointer-events-auto ${activeVertex === i ? 'bg-indigo-600 border-white' : 'bg-white border-indigo-600'}`}
+                                        style={handleStyle(p)}
+                                        onMouseDown={(e) => { setActiveVertex(i); beginShapeDrag(e, { kind: 'vertex', index: i }); }}
+                                        onDoubleClick={(e) => { e.stopPropagation(); deleteVertex(i); }}
+                                        title="Drag to move, double-click to delete"
+                                    />
+                                ))}
+                                {/* Bounding box corners: drag to resize against the opposite corner */}
+                                {corners.map((corner, i) => (
+                                    <div
+                                        key={`corner-${i}`}
+                                        className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-indigo-600 border border-white pointer-events-auto ${i % 2 === 0 ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                                        style={handleStyle(corner)}
+                                        onMouseDown={(e) => beginShapeDrag(e, { kind: 'scale', anchor: corners[(i + 2) % 4], origin: corner, original: editPoints })}
+                                        title="Drag to resize"
+                                    />
+                                ))}
+                            </div>
+                        );
+                    })()}
                 </div>
             )}
+            <SceneList
+                scenes={scenes}
+                sceneId={sceneId}
+                onSelect={onSelectScene}
+                onAdd={onAddScene}
+                onRename={onRenameScene}
+                onDelete={onDeleteScene}
+            />
         </div>
 
         {/* Desktop Sidebar - Hidden on Mobile */}
@@ -2113,6 +3853,7 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
             <div className="flex-1 overflow-y-auto">
                 <SettingsPanelContent 
                     project={project}
+                    sceneId={sceneId}
                     selectedHotspotId={selectedHotspotId}
                     onUpdate={onUpdate}
                     setSelectedHotspotId={handleSetSelectedHotspotId}
@@ -2153,6 +3894,7 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
                     <div className="overflow-y-auto flex-1">
                          <SettingsPanelContent 
                             project={project}
+                            sceneId={sceneId}
                             selectedHotspotId={selectedHotspotId}
                             onUpdate={onUpdate}
                             setSelectedHotspotId={handleSetSelectedHotspotId}
@@ -2179,34 +3921,6 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
             </Drawer>
         </div>
       </div>
-
-      {/* Overlap Warning Dialog */}
-      <AlertDialog open={showOverlapWarning} onOpenChange={setShowOverlapWarning}>
-        <AlertDialogContent className="max-w-md">
-          <div className="flex flex-col items-center text-center gap-4">
-            <div className="w-16 h-16 rounded-full bg-amber-100 flex items-center justify-center">
-              <AlertTriangle className="w-8 h-8 text-amber-600" />
-            </div>
-            <AlertDialogHeader className="space-y-3">
-              <AlertDialogTitle className="text-2xl font-semibold text-slate-900">
-                Selection Overlaps
-              </AlertDialogTitle>
-              <AlertDialogDescription className="text-sm text-slate-600 leading-relaxed">
-                This selection overlaps with an existing zone. Audio zones cannot overlap with each other. 
-                Please draw your selection in a different area that doesn't overlap with existing zones.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-          </div>
-          <AlertDialogFooter className="mt-2 flex justify-center">
-            <AlertDialogAction 
-              onClick={() => setShowOverlapWarning(false)}
-              className="bg-amber-600 hover:bg-amber-700 text-white w-full sm:w-auto"
-            >
-              Got it
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
     </div>
   );
 };
@@ -2215,12 +3929,216 @@ const EditorView = ({ project, onUpdate, onBack, onPreview, session, onShare, op
 // PLAYER VIEW
 // ---------------------------------------------------------------------------
 
-const PlayerView = ({ project, onBack, isShared }: { project: Project, onBack: () => void, isShared?: boolean }) => {
+// Full-screen panel shown before the map itself: the start screen and the access code prompt
+const PlayerStartScreen = ({ title, subtitle, children }: { title: string, subtitle: string, children: React.ReactNode }) => (
+    <div className="fixed inset-0 bg-slate-900 flex flex-col items-center justify-center p-6 text-center z-[100]">
+        <div className="max-w-md w-full animate-in fade-in zoom-in duration-300 space-y-8">
+            <div>
+                <h1 className="text-4xl font-bold text-white mb-2">{title}</h1>
+                <p className="text-slate-400">{subtitle}</p>
+            </div>
+            {children}
+        </div>
+    </div>
+);
+
+const AccessCodeScreen = ({ error, isChecking, onSubmit }: { error: string | null, isChecking: boolean, onSubmit: (code: string) => void }) => {
+    const [code, setCode] = useState('');
+
+    return (
+        <PlayerStartScreen title="Protected Sound Map" subtitle="Enter the access code you were given to open this map.">
+            <form
+                className="space-y-4 text-left"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (code.trim()) onSubmit(code.trim());
+                }}
+            >
+                <div className="space-y-2">
+                    <Label htmlFor="access-code" className="text-slate-300">Access code</Label>
+                    <Input
+                        id="access-code"
+                        autoFocus
+                        autoComplete="off"
+                        autoCapitalize="off"
+                        spellCheck={false}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        aria-invalid={!!error}
+                        aria-describedby={error ? 'access-code-error' : undefined}
+                        className="h-12 text-lg bg-slate-800 border-slate-700 text-white"
+                    />
+                    {error && <p id="access-code-error" role="alert" className="text-sm text-red-400">{error}</p>}
+                </div>
+                <Button type="submit" size="lg" disabled={isChecking || !code.trim()} className="w-full h-14 text-lg bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-xl">
+                    {isChecking ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Lock className="w-5 h-5 mr-2" />}
+                    Open Map
+                </Button>
+            </form>
+        </PlayerStartScreen>
+    );
+};
+
+// Saving a shared map onto the device, for venues with unreliable Wi-Fi
+const OfflineMapControl = ({ shortId, project }: { shortId: string, project: Project }) => {
+    const [status, setStatus] = useState<OfflineStatus | null>(null);
+    const [progress, setProgress] = useState<OfflineProgress | null>(null);
+
+    useEffect(() => {
+        getOfflineStatus(shortId, project)
+            .then(setStatus)
+            .catch(() => setStatus('none'));
+    }, [shortId, project]);
+
+    const handleSave = async () => {
+        setProgress({ done: 0, total: 0 });
+        try {
+            await saveMapOffline(shortId, project, setProgress);
+            setStatus('saved');
+            toast.success('This map now plays without a connection');
+        } catch (err) {
+            console.error(err);
+            toast.error('Could not save the map for offline use', { description: 'Check the connection and try again.' });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleRemove = async () => {
+        try {
+            await removeOfflineMap(shortId);
+            setStatus('none');
+        } catch (err) {
+            console.error(err);
+            toast.error('Could not remove the offline copy');
+        }
+    };
+
+    if (status === null) return null;
+
+    if (progress) {
+        return (
+            <div className="space-y-2" role="status">
+                <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} aria-label="Download progress" />
+                <p className="text-sm text-slate-400">Downloading {progress.done} of {progress.total} files…</p>
+            </div>
+        );
+    }
+
+    if (status === 'saved') {
+        return (
+            <div className="flex items-center justify-center gap-3 text-sm">
+                <span className="flex items-center gap-1.5 text-emerald-400"><Check className="w-4 h-4" /> Available offline</span>
+                <Button variant="link" size="sm" className="h-auto p-0 text-slate-400" onClick={handleRemove}>Remove</Button>
+            </div>
+        );
+    }
+
+    return (
+        <Button variant="outline" className="w-full bg-transparent border-slate-700 text-slate-200 hover:bg-slate-800 hover:text-white" onClick={handleSave}>
+            <Download className="w-4 h-4 mr-2" />
+            {status === 'outdated' ? 'Update Offline Copy' : 'Save for Offline Use'}
+        </Button>
+    );
+};
+
+// Two taps on a scene link within this time follow it
+const DOUBLE_TAP_MS = 400;
+
+const PlayerView = ({ project: fullProject, onBack, isShared, shareId }: { project: Project, onBack: () => void, isShared?: boolean, shareId?: string }) => {
+    // The scene on screen and the ones visited on the way there, newest last
+    const [sceneId, setSceneId] = useState(MAIN_SCENE_ID);
+    const [sceneHistory, setSceneHistory] = useState<string[]>([]);
+    // Everything below plays the current scene as if it were the whole map
+    const project = useMemo(() => sceneView(fullProject, sceneId), [fullProject, sceneId]);
+    const sceneNames = useMemo(() => new Map(listScenes(fullProject).map(s => [s.id, s.name as string])), [fullProject]);
+
     const [hasStarted, setHasStarted] = useState(false);
-    const [playingId, setPlayingId] = useState<string | null>(null);
+    const [playingIds, setPlayingIds] = useState<string[]>([]);
     const engine = useAudioEngine();
     const introAudioRef = useRef<HTMLAudioElement | null>(null);
 
+    // Sounding zones, oldest first. Mirrored in a ref so event handlers and speech
+    // callbacks always see the latest voices.
+    const playingIdsRef = useRef<string[]>([]);
+    // Which zones each pointer (mouse, keyboard, or touch identifier) is sounding, topmost first
+    const pointerZonesRef = useRef<Map<string, string[]>>(new Map());
+    const maxVoices = project.maxVoices ?? DEFAULT_MAX_VOICES;
+
+    // Keyboard / screen-reader navigation state
+    const [focusedZoneId, setFocusedZoneId] = useState<string | null>(null);
+    const [announcement, setAnnouncement] = useState("");
+    const mapRef = useRef<SVGSVGElement>(null);
+    const imageAreaRef = useRef<HTMLDivElement>(null);
+    const zoneRefs = useRef<Map<string, SVGPolygonElement>>(new Map());
+
+    // Tab order and Home/End follow the zones' on-screen reading order
+    const orderedHotspots = useMemo(() => sortByReadingOrder(project.hotspots), [project.hotspots]);
+
+    const zoneCentroids = useMemo(
+        () => new Map(project.hotspots.map(h => [h.id, polygonCentroid(h.points)])),
+        [project.hotspots]
+    );
+
+    const isZonePlaying = (id: string) => playingIdsRef.current.includes(id);
+
+    const toImagePoint = (clientX: number, clientY: number): Point | null => {
+        const rect = imageAreaRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0 || rect.height === 0) return null;
+        return {
+            x: ((clientX - rect.left) / rect.width) * 100,
+            y: ((clientY - rect.top) / rect.height) * 100,
+        };
+    };
+
+    // In spatial mode the listener follows the pointer/finger across the image
+    const updateListener = (clientX: number, clientY: number) => {
+        if (!project.spatialAudio) return;
+        const point = toImagePoint(clientX, clientY);
+        if (point) engine.setListener(point);
+    };
+
+    // Zones with a proximity radius fade in as a pointer approaches their edge
+    const proximityZonesRef = useRef<Set<string>>(new Set());
+
+    const updateProximity = (positions: { clientX: number, clientY: number }[]) => {
+        const points = positions.map(p => toImagePoint(p.clientX, p.clientY)).filter((p): p is Point => p !== null);
+        if (points.length === 0) return;
+
+        project.hotspots.forEach(h => {
+            const radius = h.settings.proximityRadius ?? 0;
+            if (!h.audioUrl || radius <= 0) return;
+
+            // With several fingers down the closest one decides
+            const distance = Math.min(...points.map(point => distanceToPolygon(point, h.points)));
+            if (distance === 0) {
+                // Inside: the regular enter/leave handling owns playback
+                engine.setProximity(h.id, 1);
+            } else if (distance < radius) {
+                // Restarts (or rescues from a fade-out) the source if needed
+                engine.play(h.id, h.audioUrl, h.settings, project.spatialAudio ? zoneCentroids.get(h.id) : undefined);
+                engine.setProximity(h.id, proximityGain(distance, radius, h.settings.proximityFalloff));
+                proximityZonesRef.current.add(h.id);
+            } else if (proximityZonesRef.current.has(h.id)) {
+                if (!isZonePlaying(h.id)) engine.stop(h.id);
+                proximityZonesRef.current.delete(h.id);
+            }
+        });
+    };
+
+    const stopProximity = () => {
+        proximityZonesRef.current.forEach(id => {
+            if (!isZonePlaying(id)) engine.stop(id);
+        });
+        proximityZonesRef.current.clear();
+    };
+
+    const handlePointerMove = (positions: { clientX: number, clientY: number }[]) => {
+        if (positions.length === 0) return;
+        updateListener(positions[0].clientX, positions[0].clientY);
+        updateProximity(positions);
+    };
+
     const handleStart = () => {
         setHasStarted(true);
 
@@ -2239,7 +4157,7 @@ const PlayerView = ({ project, onBack, isShared }: { project: Project, onBack: (
         }
         engine.stopAll(); 
         
-        (project.globalChannels || []).forEach(channel => {
+        project.globalChannels.forEach(channel => {
             if (channel.audioUrl) {
                 engine.play(channel.id, channel.audioUrl, channel.settings);
             }
@@ -2251,6 +4169,8 @@ const PlayerView = ({ project, onBack, isShared }: { project: Project, onBack: (
         if (document.fullscreenElement) {
             document.exitFullscreen().catch((err) => console.log("Exit fullscreen error", err));
         }
+        // Drop the scene entries so the browser's back button doesn't replay them
+        if (sceneHistory.length > 0) window.history.go(-sceneHistory.length);
         onBack();
     };
 
@@ -2274,66 +4194,405 @@ const PlayerView = ({ project, onBack, isShared }: { project: Project, onBack: (
         }
     }, [hasStarted, project.introAudioUrl, project.introAudioLoop]);
 
+    const setPlaying = (ids: string[]) => {
+        playingIdsRef.current = ids;
+        setPlayingIds(ids);
+    };
+
+    // Speech is a single channel shared by all zones
+    const speakingZoneRef = useRef<string | null>(null);
+    const describedZoneRef = useRef<string | null>(null);
+
     const playHotspot = (hotspot: Hotspot) => {
-        if (!hotspot.audioUrl) return;
-        if (playingId === hotspot.id) return;
-        // If we switch directly from one hotspot to another, 
-        // we might want to fade the old one out quickly while starting the new one
+        const label = hotspot.spokenLabel?.trim();
+        const speechMode = label ? (hotspot.speechMode ?? 'before') : 'off';
+        if (!hotspot.audioUrl && speechMode === 'off') return;
+        if (isZonePlaying(hotspot.id)) return;
+
+        // Voice cap: the longest-sounding zones make room for the new one.
         // The engine handles fading out if we stop it.
-        if (playingId) engine.stop(playingId);
-        engine.play(hotspot.id, hotspot.audioUrl, hotspot.settings);
-        setPlayingId(hotspot.id);
+        let ids = playingIdsRef.current;
+        while (ids.length >= maxVoices) {
+            stopVoice(ids[0]);
+            ids = ids.slice(1);
+        }
+        setPlaying([...ids, hotspot.id]);
+        engine.setProximity(hotspot.id, 1);
+
+        const position = project.spatialAudio ? zoneCentroids.get(hotspot.id) : undefined;
+
+        if (speechMode === 'off') {
+            if (hotspot.audioUrl) engine.play(hotspot.id, hotspot.audioUrl, hotspot.settings, position);
+            return;
+        }
+
+        speakingZoneRef.current = hotspot.id;
+        speak(label!, project.speech, (completed) => {
+            // Another zone's label cutting in should not cost this zone its audio;
+            // its own long-press description should
+            const interruptedByDescription = !completed && describedZoneRef.current === hotspot.id;
+            if (speechMode === 'before' && hotspot.audioUrl && isZonePlaying(hotspot.id) && !interruptedByDescription) {
+                engine.play(hotspot.id, hotspot.audioUrl, hotspot.settings, position);
+            }
+        });
     };
 
-    const stopHotspot = (hotspot: Hotspot) => {
-        if (playingId === hotspot.id && !hotspot.settings.loop) {
-             engine.stop(playingId);
-             setPlayingId(null);
+    // Silences one zone without touching the bookkeeping of which pointer is where
+    const stopVoice = (id: string) => {
+        engine.stop(id);
+        if (speakingZoneRef.current === id) {
+            cancelSpeech();
+            speakingZoneRef.current = null;
         }
-        // If it IS looping, we also stop it on mouse leave (fade out)
-        // Usually in these maps, "hover" = play, "leave" = stop, even if looping.
+        if (describedZoneRef.current === id) describedZoneRef.current = null;
+    };
+
+    const stopHotspot = (id: string) => {
+        // "hover" = play, "leave" = stop, even if looping.
         // Looping just means it repeats WHILE you hover.
-        else if (playingId === hotspot.id && hotspot.settings.loop) {
-             engine.stop(playingId);
-             setPlayingId(null);
+        if (!isZonePlaying(id)) return;
+        stopVoice(id);
+        setPlaying(playingIdsRef.current.filter(z => z !== id));
+    };
+
+    const stopAllZones = () => {
+        pointerZonesRef.current.clear();
+        playingIdsRef.current.forEach(stopVoice);
+        setPlaying([]);
+        cancelSpeech();
+    };
+
+    const setPointerZones = (pointer: string, zoneIds: string[]) => {
+        const zones = pointerZonesRef.current;
+        const previous = zones.get(pointer) ?? [];
+        if (previous.length === zoneIds.length && previous.every((id, i) => id === zoneIds[i])) return;
+
+        if (zoneIds.length > 0) zones.set(pointer, zoneIds);
+        else zones.delete(pointer);
+
+        // Bottom-up, so the topmost zone is the newest voice and the last to be dropped by the cap
+        [...zoneIds].reverse().forEach(id => {
+            const hotspot = project.hotspots.find(h => h.id === id);
+            if (hotspot) playHotspot(hotspot);
+        });
+        // A zone keeps sounding while any other pointer is still inside it
+        const held = new Set([...zones.values()].flat());
+        previous.forEach(id => {
+            if (!held.has(id)) stopHotspot(id);
+        });
+    };
+
+    // Overlapping zones are resolved by layer, not by whichever polygon the browser hit-tests
+    const zonesAt = (clientX: number, clientY: number): string[] => {
+        const point = toImagePoint(clientX, clientY);
+        return point ? audibleZonesAt(point, project.hotspots).map(h => h.id) : [];
+    };
+
+    // The topmost audible zone at the point that leads to another scene
+    const sceneLinkAt = (clientX: number, clientY: number) => {
+        const point = toImagePoint(clientX, clientY);
+        return point ? audibleZonesAt(point, project.hotspots).find(h => h.targetSceneId && sceneNames.has(h.targetSceneId)) : undefined;
+    };
+
+    // Long-press on a zone speaks its longer description
+    const longPressRef = useRef<{ timer: NodeJS.Timeout | null; zoneId: string | null }>({ timer: null, zoneId: null });
+
+    const speakDescription = (hotspot: Hotspot) => {
+        const description = hotspot.description?.trim();
+        if (!description) return;
+        // Silence the zone audio so the description is audible; the zone stays active
+        describedZoneRef.current = hotspot.id;
+        engine.stop(hotspot.id);
+        speak(description, project.speech);
+    };
+
+    const startLongPress = (zoneId: string | null) => {
+        if (longPressRef.current.zoneId === zoneId) return;
+        cancelLongPress();
+        if (!zoneId) return;
+        longPressRef.current.zoneId = zoneId;
+        longPressRef.current.timer = setTimeout(() => {
+            const hotspot = project.hotspots.find(h => h.id === zoneId);
+            if (hotspot) speakDescription(hotspot);
+            longPressRef.current.timer = null;
+        }, LONG_PRESS_MS);
+    };
+
+    const cancelLongPress = () => {
+        if (longPressRef.current.timer) clearTimeout(longPressRef.current.timer);
+        longPressRef.current = { timer: null, zoneId: null };
+    };
+
+    useEffect(() => {
+        return () => {
+            cancelLongPress();
+            cancelSpeech();
+        };
+    }, []);
+
+    const announce = (message: string) => {
+        // Append a non-breaking space when repeating so the live region still fires
+        setAnnouncement(prev => prev === message ? `${message}\u00A0` : message);
+    };
+
+    const focusZone = (hotspot: Hotspot) => {
+        zoneRefs.current.get(hotspot.id)?.focus();
+    };
+
+    // Silences this scene, plays the transition and starts the next scene's channels
+    const enterScene = (nextId: string, transitionUrl?: string | null) => {
+        const next = sceneView(fullProject, nextId);
+        cancelLongPress();
+        stopProximity();
+        stopAllZones();
+        project.globalChannels.forEach(channel => engine.stop(channel.id));
+        if (transitionUrl) engine.play(`transition-${Date.now()}`, transitionUrl, TRANSITION_SETTINGS);
+        next.globalChannels.forEach(channel => {
+            if (channel.audioUrl) engine.play(channel.id, channel.audioUrl, channel.settings);
+        });
+        touchHapticsRef.current.clear();
+        lastTapRef.current = null;
+        setFocusedZoneId(null);
+        setSceneId(nextId);
+        mapRef.current?.focus();
+        announce(`${sceneNames.get(nextId)}. ${next.hotspots.length} zones.`);
+    };
+
+    // Each scene visited is a browser history entry, so the browser's and the
+    // phone's own back gestures lead back through the scenes
+    const followSceneLink = (hotspot: Hotspot) => {
+        if (!hotspot.targetSceneId || !sceneNames.has(hotspot.targetSceneId)) return;
+        window.history.pushState({ sceneId: hotspot.targetSceneId }, '');
+        setSceneHistory(prev => [...prev, sceneId]);
+        enterScene(hotspot.targetSceneId, hotspot.transitionAudioUrl);
+    };
+
+    const goBackScene = () => {
+        if (sceneHistory.length > 0) window.history.back();
+    };
+
+    useEffect(() => {
+        if (!hasStarted) return;
+        const handlePopState = (e: PopStateEvent) => {
+            const target = e.state?.sceneId ?? MAIN_SCENE_ID;
+            if (target === sceneId || !sceneNames.has(target)) return;
+            if (target === sceneHistory[sceneHistory.length - 1]) {
+                setSceneHistory(prev => prev.slice(0, -1));
+            } else {
+                // Forward again after going back
+                setSceneHistory(prev => [...prev, sceneId]);
+            }
+            enterScene(target);
+        };
+        // Backspace or Alt+Left, as in a browser
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Backspace' || (e.altKey && e.key === 'ArrowLeft')) {
+                if (sceneHistory.length === 0) return;
+                e.preventDefault();
+                goBackScene();
+            }
+        };
+        window.addEventListener('popstate', handlePopState);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('popstate', handlePopState);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [hasStarted, sceneId, sceneHistory, fullProject]);
+
+    const toggleHotspot = (hotspot: Hotspot) => {
+        if (!hotspot.audioUrl && !hotspot.spokenLabel?.trim()) {
+            announce(`${hotspot.name} has no audio.`);
+            return;
+        }
+        if (isZonePlaying(hotspot.id)) {
+            if (pointerZonesRef.current.get('keyboard')?.includes(hotspot.id)) {
+                pointerZonesRef.current.delete('keyboard');
+            }
+            stopHotspot(hotspot.id);
+            announce(`Stopped ${hotspot.name}.`);
+        } else {
+            setPointerZones('keyboard', [hotspot.id]);
+            announce(`Playing ${hotspot.name}.`);
         }
     };
 
-    const handleTouchMove = (e: React.TouchEvent) => {
-        const touch = e.touches[0];
-        const element = document.elementFromPoint(touch.clientX, touch.clientY);
-        if (element && element.tagName === 'polygon') {
-            const id = element.getAttribute('data-id');
-            if (id && id !== playingId) {
-                const hotspot = project.hotspots.find(h => h.id === id);
-                if (hotspot) playHotspot(hotspot);
+    const handleZoneKeyDown = (e: React.KeyboardEvent, hotspot: Hotspot) => {
+        const directions: Record<string, Direction> = {
+            ArrowUp: 'up',
+            ArrowDown: 'down',
+            ArrowLeft: 'left',
+            ArrowRight: 'right',
+        };
+
+        if (e.key === 'Enter' && hotspot.targetSceneId && sceneNames.has(hotspot.targetSceneId)) {
+            e.preventDefault();
+            e.stopPropagation();
+            followSceneLink(hotspot);
+        } else if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            e.stopPropagation();
+            toggleHotspot(hotspot);
+        } else if (directions[e.key]) {
+            e.preventDefault();
+            e.stopPropagation();
+            const next = findNearestInDirection(hotspot, orderedHotspots, directions[e.key]);
+            if (next) {
+                focusZone(next);
+            } else {
+                announce(`No zone further ${directions[e.key]}.`);
+            }
+        } else if (e.key === 'Home' || e.key === 'End') {
+            e.preventDefault();
+            e.stopPropagation();
+            const target = e.key === 'Home' ? orderedHotspots[0] : orderedHotspots[orderedHotspots.length - 1];
+            if (target) focusZone(target);
+        } else if (e.key === 'Escape' && playingIds.length > 0) {
+            e.preventDefault();
+            e.stopPropagation();
+            stopAllZones();
+            announce("Stopped.");
+        } else if (e.key === 'd' || e.key === 'D') {
+            // Keyboard equivalent of the long-press description
+            e.preventDefault();
+            e.stopPropagation();
+            if (hotspot.description?.trim()) {
+                speakDescription(hotspot);
+            } else {
+                announce(`${hotspot.name} has no description.`);
+            }
+        }
+    };
+
+    // Arrow keys on the map itself (before any zone has focus) enter the first zone
+    const handleMapKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key.startsWith('Arrow') || e.key === 'Home') {
+            e.preventDefault();
+            if (orderedHotspots[0]) focusZone(orderedHotspots[0]);
+        }
+    };
+
+    // Move focus into the map once the experience starts so keyboard users land on it
+    useEffect(() => {
+        if (hasStarted) {
+            mapRef.current?.focus();
+            announce(orderedHotspots.length > 0
+                ? `${project.title}. ${orderedHotspots.length} zones. Use arrow keys or Tab to move between zones, Enter or Space to play and stop, D to hear a description.`
+                : `${project.title}. This map has no zones.`);
+        }
+    }, [hasStarted]);
+
+    // Haptic boundary tracking, per finger
+    const touchHapticsRef = useRef<Map<string, { zoneId: string | null; atEdge: boolean }>>(new Map());
+
+    const updateTouchHaptics = (pointer: string, touch: React.Touch, zoneId: string | null) => {
+        let state = touchHapticsRef.current.get(pointer);
+        if (!state) {
+            state = { zoneId: null, atEdge: false };
+            touchHapticsRef.current.set(pointer, state);
+        }
+
+        if (zoneId !== state.zoneId) {
+            const left = state.zoneId ? project.hotspots.find(h => h.id === state!.zoneId) : undefined;
+            const entered = zoneId ? project.hotspots.find(h => h.id === zoneId) : undefined;
+            // Entering wins when sliding straight from one zone into another
+            if (entered) {
+                vibrate(resolveHapticPreset('enter', project.haptics, entered.haptics));
+            } else if (left) {
+                vibrate(resolveHapticPreset('leave', project.haptics, left.haptics));
             }
-        } else if (playingId) {
-            // If we touched outside any polygon, stop playing
-             engine.stop(playingId);
-             setPlayingId(null);
+            state.zoneId = zoneId;
+        }
+
+        const point = toImagePoint(touch.clientX, touch.clientY);
+        if (point) {
+            const atEdge = point.x <= EDGE_MARGIN || point.x >= 100 - EDGE_MARGIN || point.y <= EDGE_MARGIN || point.y >= 100 - EDGE_MARGIN;
+            if (atEdge && !state.atEdge) {
+                vibrate(resolveHapticPreset('edge', project.haptics));
+            }
+            state.atEdge = atEdge;
+        }
+    };
+
+    // Double-tapping a scene link follows it; a single touch only plays it
+    const lastTapRef = useRef<{ zoneId: string; time: number } | null>(null);
+
+    const handleTap = (touch: React.Touch) => {
+        const link = sceneLinkAt(touch.clientX, touch.clientY);
+        const last = lastTapRef.current;
+        if (link && last?.zoneId === link.id && Date.now() - last.time < DOUBLE_TAP_MS) {
+            followSceneLink(link);
+        } else {
+            lastTapRef.current = link ? { zoneId: link.id, time: Date.now() } : null;
         }
     };
 
+    const handleTouchEnd = (e: React.TouchEvent) => {
+        // Suppress the emulated mouse events that would otherwise "hover" the last zone
+        if (e.cancelable) e.preventDefault();
+
+        if (e.touches.length === 0 && e.changedTouches.length === 1) handleTap(e.changedTouches[0]);
+
+        Array.from(e.changedTouches).forEach(touch => {
+            const pointer = `touch-${touch.identifier}`;
+            setPointerZones(pointer, []);
+            touchHapticsRef.current.delete(pointer);
+        });
+
+        if (e.touches.length === 0) {
+            cancelLongPress();
+            stopProximity();
+        }
+    };
+
+    const handleTouchMove = (e: React.TouchEvent) => {
+        const touches = Array.from(e.touches);
+        handlePointerMove(touches);
+
+        touches.forEach(touch => {
+            const pointer = `touch-${touch.identifier}`;
+            const zoneIds = zonesAt(touch.clientX, touch.clientY);
+            updateTouchHaptics(pointer, touch, zoneIds[0] ?? null);
+            // Touching outside any polygon stops whatever that finger was playing
+            setPointerZones(pointer, zoneIds);
+        });
+
+        // Long-press descriptions only make sense for a single finger
+        if (touches.length === 1) {
+            startLongPress(pointerZonesRef.current.get(`touch-${touches[0].identifier}`)?.[0] ?? null);
+        } else {
+            cancelLongPress();
+        }
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        handlePointerMove([e]);
+        const zoneIds = zonesAt(e.clientX, e.clientY);
+        setPointerZones('mouse', zoneIds);
+        // Moving off the held zone cancels its description
+        if (longPressRef.current.zoneId && longPressRef.current.zoneId !== zoneIds[0]) cancelLongPress();
+    };
+
+    const handleMouseLeave = () => {
+        setPointerZones('mouse', []);
+        cancelLongPress();
+        stopProximity();
+    };
+
     if (!hasStarted) {
         return (
-            <div className="fixed inset-0 bg-slate-900 flex flex-col items-center justify-center p-6 text-center z-[100]">
-                <div className="max-w-md w-full animate-in fade-in zoom-in duration-300 space-y-8">
-                    <div>
-                        <h1 className="text-4xl font-bold text-white mb-2">{project.title}</h1>
-                        <p className="text-slate-400">Interactive Sound Map</p>
-                    </div>
-                    <Button size="lg" onClick={handleStart} className="w-full h-14 text-lg bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-xl transition-all hover:scale-105">
-                        <Play className="w-6 h-6 mr-2 fill-current" />
-                        Start Experience
-                    </Button>
-                    <Button variant="ghost" className="text-slate-400 hover:text-slate-300" onClick={handleBack}>
-                        {isShared ? "Create Your Own" : (
-                            <><ArrowLeft className="w-4 h-4 mr-2" /> Back to Editor</>
-                        )}
-                    </Button>
-                </div>
-            </div>
+            <PlayerStartScreen title={project.title} subtitle="Interactive Sound Map">
+                <Button size="lg" autoFocus onClick={handleStart} className="w-full h-14 text-lg bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-xl transition-all hover:scale-105">
+                    <Play className="w-6 h-6 mr-2 fill-current" />
+                    Start Experience
+                </Button>
+                {isShared && shareId && isOfflineSupported() && <OfflineMapControl shortId={shareId} project={fullProject} />}
+                <Button variant="ghost" className="text-slate-400 hover:text-slate-300" onClick={handleBack}>
+                    {isShared ? "Create Your Own" : (
+                        <><ArrowLeft className="w-4 h-4 mr-2" /> Back to Editor</>
+                    )}
+                </Button>
+            </PlayerStartScreen>
         );
     }
 
@@ -2352,28 +4611,74 @@ const PlayerView = ({ project, onBack, isShared }: { project: Project, onBack: (
                     </Button>
                 )}
             </div>
+            {sceneHistory.length > 0 && (
+                <div className="absolute top-4 right-4 z-50">
+                    <Button variant="outline" size="sm" onClick={goBackScene} className="bg-black/20 text-white border-white/20 backdrop-blur-md hover:bg-black/40">
+                        <ArrowLeft className="w-4 h-4 mr-2" /> Back to {sceneNames.get(sceneHistory[sceneHistory.length - 1])}
+                    </Button>
+                </div>
+            )}
             
-            <div className="flex-1 flex items-center justify-center p-4 overflow-hidden" onTouchMove={handleTouchMove}>
-                <div className="relative shadow-2xl select-none" style={{ touchAction: 'none' }}>
+            <div className="flex-1 flex items-center justify-center p-4 overflow-hidden" onTouchStart={handleTouchMove} onTouchMove={handleTouchMove} onTouchEnd={handleTouchEnd} onTouchCancel={handleTouchEnd}>
+                <div ref={imageAreaRef} className="relative shadow-2xl select-none" style={{ touchAction: 'none' }} onMouseMove={handleMouseMove} onMouseLeave={handleMouseLeave} onMouseDown={(e) => startLongPress(zonesAt(e.clientX, e.clientY)[0] ?? null)} onMouseUp={cancelLongPress} onClick={(e) => {
+                    const link = sceneLinkAt(e.clientX, e.clientY);
+                    if (link) followSceneLink(link);
+                }}>
                     <img src={project.imageUrl || ""} className="max-w-full max-h-[90vh] block pointer-events-none" draggable={false} />
-                    <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
-                         {project.hotspots.map((h) => (
+                    <svg
+                        ref={mapRef}
+                        className="absolute inset-0 w-full h-full outline-none"
+                        viewBox="0 0 100 100"
+                        preserveAspectRatio="none"
+                        tabIndex={-1}
+                        role="application"
+                        aria-roledescription="sound map"
+                        aria-label={project.title}
+                        onKeyDown={handleMapKeyDown}
+                    >
+                        {/* Painted in layer order so nested zones show on top of their parents */}
+                        <g aria-hidden="true" style={{ pointerEvents: 'none' }}>
+                            {project.hotspots.map((h) => (
+                                <polygon
+                                    key={h.id}
+                                    points={pointsToSvgPath(h.points)}
+                                    fill={playingIds.includes(h.id) ? h.color : "transparent"}
+                                    fillOpacity={0.5}
+                                    className="transition-all duration-200"
+                                />
+                            ))}
+                        </g>
+                        {/* Focus targets, in reading order for Tab */}
+                        {orderedHotspots.map((h) => (
                             <polygon
                                 key={h.id}
+                                ref={(el) => { if (el) zoneRefs.current.set(h.id, el); else zoneRefs.current.delete(h.id); }}
                                 data-id={h.id}
                                 points={pointsToSvgPath(h.points)}
-                                fill={playingId === h.id ? h.color : "transparent"}
-                                fillOpacity={0.5}
-                                stroke="transparent"
-                                onMouseEnter={() => playHotspot(h)}
-                                onMouseLeave={() => stopHotspot(h)}
-                                onTouchStart={() => playHotspot(h)}
+                                fill="transparent"
+                                stroke={focusedZoneId === h.id ? "white" : "transparent"}
+                                strokeWidth="0.8"
+                                style={{ vectorEffect: 'non-scaling-stroke', outline: 'none' }}
+                                onFocus={() => {
+                                    setFocusedZoneId(h.id);
+                                    if (project.spatialAudio) engine.setListener(zoneCentroids.get(h.id)!);
+                                    const link = h.targetSceneId && sceneNames.get(h.targetSceneId);
+                                    announce(link ? `${h.name}, press Enter to go to ${link}` : h.audioUrl ? h.name : `${h.name}, no audio`);
+                                }}
+                                onBlur={() => setFocusedZoneId(prev => prev === h.id ? null : prev)}
+                                onKeyDown={(e) => handleZoneKeyDown(e, h)}
+                                tabIndex={0}
+                                role="button"
+                                aria-label={h.name}
+                                aria-pressed={playingIds.includes(h.id)}
                                 className="cursor-crosshair transition-all duration-200"
                             />
                         ))}
                     </svg>
                 </div>
             </div>
+
+            <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
         </div>
     );
 };
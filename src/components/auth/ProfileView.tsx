@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui
 import { User, Mail, LogOut, Shield, Check, AlertCircle, ArrowLeft, HelpCircle } from "lucide-react";
 import { Alert, AlertDescription } from "../ui/alert";
 import { projectId } from '../../utils/supabase/info';
+import { ModerationQueue } from '../ModerationQueue';
 
 export const ProfileView = ({ onBack, onSignOut, onShowOnboarding }: { onBack: () => void, onSignOut: () => void, onShowOnboarding?: () => void }) => {
     const [user, setUser] = useState<any>(null);
@@ -144,6 +145,8 @@ export const ProfileView = ({ onBack, onSignOut, onShowOnboarding }: { onBack: (
                         </form>
                     </CardContent>
                 </Card>
+
+                {user.app_metadata?.role === 'admin' && <ModerationQueue />}
             </div>
         </div>
     );
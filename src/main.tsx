@@ -2,6 +2,10 @@
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
   import "./index.css";
+  import { registerServiceWorker, resumeInstalledMap } from "./utils/offline";
+
+  resumeInstalledMap();
+  registerServiceWorker();
 
   createRoot(document.getElementById("root")!).render(<App />);
   
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, migrateProject, ProjectSchemaError } from "./projectSchema.ts";
+
+const stored = (fields: Record<string, unknown>) => ({
+  id: "p1",
+  title: "Map",
+  hotspots: [],
+  globalChannels: [],
+  introAudioLoop: false,
+  createdAt: 0,
+  ...fields,
+});
+
+describe("migrateProject", () => {
+  it("gives documents from before scenes an empty scene list", () => {
+    const project = migrateProject(stored({ schemaVersion: 2 }));
+    expect(project.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(project.scenes).toEqual([]);
+  });
+
+  it("keeps the scenes a document already has", () => {
+    const scenes = [{ id: "s1", name: "Cellar", hotspots: [], globalChannels: [] }];
+    expect(migrateProject(stored({ schemaVersion: 2, scenes })).scenes).toEqual(scenes);
+  });
+
+  it("refuses documents from a newer schema", () => {
+    expect(() => migrateProject(stored({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))).toThrow(ProjectSchemaError);
+  });
+});
@@ -0,0 +1,263 @@
+// Project document schema.
+//
+// A project is stored as one JSON document in `projects.data` and outlives the
+// code that wrote it. Every document carries a `schemaVersion`; on load it is
+// brought up to CURRENT_SCHEMA_VERSION by running the migrations below in order
+// and then checked against the schema, so an old document is upgraded and a
+// broken one fails with a clear error instead of half-rendering.
+//
+// Used by both the web app and the server function, so it must not import
+// anything.
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+type ProjectData = Record<string, any>;
+
+export type SchemaIssue = {
+  path: string;    // e.g. "hotspots[2].settings.volume"
+  message: string;
+};
+
+export class ProjectSchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(`Invalid project data: ${first.path ? `${first.path}: ` : ""}${first.message}${more}`);
+    this.name = "ProjectSchemaError";
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MIGRATIONS
+// ---------------------------------------------------------------------------
+
+// Fade lengths the audio engine used when a zone or channel had none saved
+const LEGACY_FADE_SECONDS = 0.3;
+
+const withAudioDefaults = (settings: ProjectData | undefined) => ({
+  volume: 1,
+  pan: 0,
+  loop: false,
+  ...settings,
+  fadeIn: settings?.fadeIn ?? LEGACY_FADE_SECONDS,
+  fadeOut: settings?.fadeOut ?? LEGACY_FADE_SECONDS,
+});
+
+// MIGRATIONS[n] upgrades a document from version n - 1 to version n.
+// Never edit a migration once released; add a new one instead.
+const MIGRATIONS: Record<number, (data: ProjectData) => ProjectData> = {
+  // Documents from before versioning: fill in what older saves left out
+  1: (data) => ({
+    ...data,
+    title: data.title ?? "Untitled Project",
+    hotspots: (data.hotspots ?? []).map((h: ProjectData) => ({
+      ...h,
+      name: h.name ?? "",
+      settings: withAudioDefaults(h.settings),
+    })),
+    globalChannels: (data.globalChannels ?? []).map((c: ProjectData) => ({
+      ...c,
+      name: c.name ?? "",
+      settings: withAudioDefaults(c.settings),
+    })),
+    introAudioLoop: data.introAudioLoop ?? false,
+    createdAt: data.createdAt ?? 0,
+  }),
+
+  // Freehand strokes dragged past the image border left points outside 0-100,
+  // which the server no longer accepts
+  2: (data) => ({
+    ...data,
+    hotspots: Array.isArray(data.hotspots) ? data.hotspots.map((h: ProjectData) => ({
+      ...h,
+      points: Array.isArray(h?.points)
+        ? h.points.map((p: ProjectData) => ({
+          ...p,
+          x: typeof p?.x === "number" ? Math.max(0, Math.min(100, p.x)) : p?.x,
+          y: typeof p?.y === "number" ? Math.max(0, Math.min(100, p.y)) : p?.y,
+        }))
+        : h?.points,
+    })) : data.hotspots,
+  }),
+
+  // Scenes (see scenes.ts). Apps from before them would drop `scenes` when
+  // saving, so the server refuses writes from older schema versions.
+  3: (data) => ({
+    ...data,
+    scenes: data.scenes ?? [],
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// RUNTIME SCHEMA
+// ---------------------------------------------------------------------------
+
+// Unknown fields are allowed so older apps can still open newer documents
+// that only add optional fields.
+
+type Validator = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+const is = (test: (value: unknown) => boolean, expected: string): Validator => {
+  return (value, path, issues) => {
+    if (!test(value)) issues.push({ path, message: `Expected ${expected}` });
+  };
+};
+
+const string = is((v) => typeof v === "string", "text");
+const number = is((v) => typeof v === "number" && Number.isFinite(v), "a number");
+const boolean = is((v) => typeof v === "boolean", "true or false");
+
+const oneOf = (options: readonly string[]) => {
+  return is((v) => options.includes(v as string), `one of ${options.join(", ")}`);
+};
+
+// Missing and null are both accepted
+const optional = (validator: Validator): Validator => {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) validator(value, path, issues);
+  };
+};
+
+const arrayOf = (item: Validator): Validator => {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: "Expected a list" });
+      return;
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, issues));
+  };
+};
+
+const object = (fields: Record<string, Validator>): Validator => {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: "Expected an object" });
+      return;
+    }
+    for (const [key, validator] of Object.entries(fields)) {
+      validator((value as ProjectData)[key], path ? `${path}.${key}` : key, issues);
+    }
+  };
+};
+
+const point = object({ x: number, y: number });
+
+const audioSettings = object({
+  volume: number,
+  pan: number,
+  loop: boolean,
+  fadeIn: number,
+  fadeOut: number,
+  proximityRadius: optional(number),
+  proximityFalloff: optional(string),
+});
+
+// Haptic events name a preset (see haptics.ts); patterns themselves aren't stored
+const hotspotHaptics = object({
+  enter: optional(string),
+  leave: optional(string),
+});
+
+const projectHaptics = object({
+  enabled: optional(boolean),
+  enter: optional(string),
+  leave: optional(string),
+  edge: optional(string),
+});
+
+const speechSettings = object({
+  voiceURI: optional(string),
+  lang: optional(string),
+  rate: optional(number),
+});
+
+const hotspot = object({
+  id: string,
+  points: arrayOf(point),
+  audioPath: optional(string),
+  audioDisabled: optional(boolean),
+  name: string,
+  color: string,
+  settings: audioSettings,
+  haptics: optional(hotspotHaptics),
+  spokenLabel: optional(string),
+  description: optional(string),
+  speechMode: optional(string),
+  parentId: optional(string),
+  overlapMode: optional(oneOf(["solo", "mix"])),
+  targetSceneId: optional(string),
+  transitionAudioPath: optional(string),
+});
+
+const globalChannel = object({
+  id: string,
+  name: string,
+  audioPath: optional(string),
+  settings: audioSettings,
+});
+
+// Scenes after the first; see scenes.ts
+const scene = object({
+  id: string,
+  name: string,
+  imagePath: optional(string),
+  hotspots: arrayOf(hotspot),
+  globalChannels: arrayOf(globalChannel),
+});
+
+const project = object({
+  schemaVersion: number,
+  id: string,
+  title: string,
+  imagePath: optional(string),
+  hotspots: arrayOf(hotspot),
+  globalChannels: arrayOf(globalChannel),
+  sceneName: optional(string),
+  scenes: optional(arrayOf(scene)),
+  introAudioPath: optional(string),
+  introAudioLoop: boolean,
+  haptics: optional(projectHaptics),
+  speech: optional(speechSettings),
+  spatialAudio: optional(boolean),
+  maxVoices: optional(number),
+  createdAt: number,
+  version: optional(number),
+  updatedAt: optional(string),
+});
+
+export const validateProject = (data: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  project(data, "", issues);
+  return issues;
+};
+
+// Upgrades a stored document to the current schema and validates it.
+// Throws ProjectSchemaError when it can't be read.
+export const migrateProject = (input: unknown): ProjectData => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new ProjectSchemaError([{ path: "", message: "Expected a project object" }]);
+  }
+
+  let data = input as ProjectData;
+  const from = data.schemaVersion ?? 0;
+  if (!Number.isInteger(from) || from < 0) {
+    throw new ProjectSchemaError([{ path: "schemaVersion", message: "Expected a whole number" }]);
+  }
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectSchemaError([{
+      path: "schemaVersion",
+      message: `Saved by a newer version of the app (schema ${from}, this one reads up to ${CURRENT_SCHEMA_VERSION})`,
+    }]);
+  }
+
+  for (let version = from + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
+    data = { ...MIGRATIONS[version](data), schemaVersion: version };
+  }
+
+  const issues = validateProject(data);
+  if (issues.length > 0) throw new ProjectSchemaError(issues);
+  return data;
+};
@@ -0,0 +1,75 @@
+// Scenes of a project.
+//
+// A project can hold several scenes, each with its own image, zones and
+// background channels; a zone with a `targetSceneId` leads to another scene.
+// The first scene is the project itself: its `imagePath`, `hotspots` and
+// `globalChannels` stay at the top level, so zones and channels are found where
+// they always were. Further scenes are listed in `project.scenes`.
+//
+// Used by both the web app and the server function, so it must not import
+// anything.
+
+type ProjectData = Record<string, any>;
+
+export const MAIN_SCENE_ID = "main";
+export const DEFAULT_MAIN_SCENE_NAME = "Main Scene";
+export const MAX_SCENES = 20; // Besides the first
+
+// What each scene has for itself; everything else belongs to the project
+export const SCENE_FIELDS = ["imageFile", "imageUrl", "imagePath", "hotspots", "globalChannels"] as const;
+
+const pickSceneFields = (source: ProjectData) => {
+  const picked: ProjectData = {};
+  for (const field of SCENE_FIELDS) picked[field] = source[field];
+  return picked;
+};
+
+// Every scene, the first one included, as `{ id, name, ...its fields }`
+export const listScenes = (project: ProjectData): ProjectData[] => [
+  { id: MAIN_SCENE_ID, name: project.sceneName || DEFAULT_MAIN_SCENE_NAME, ...pickSceneFields(project) },
+  ...(Array.isArray(project.scenes) ? project.scenes : []),
+];
+
+// Zones of every scene
+export const allHotspots = (project: ProjectData): ProjectData[] => {
+  return listScenes(project).flatMap((scene) => scene.hotspots ?? []);
+};
+
+// The project as seen from one scene: that scene's image, zones and channels
+// in place of the first scene's. An unknown scene shows the first one.
+export const sceneView = <T extends ProjectData>(project: T, sceneId: string): T => {
+  const scene = project.scenes?.find((s: ProjectData) => s.id === sceneId);
+  return scene ? { ...project, ...pickSceneFields(scene) } : project;
+};
+
+// Writes a changed scene view back: the scene's fields go to the scene, the
+// rest (title, settings, the scene list itself) to the project
+export const applySceneView = <T extends ProjectData>(project: T, sceneId: string, view: T): T => {
+  const scene = project.scenes?.find((s: ProjectData) => s.id === sceneId);
+  if (!scene) return view;
+  return {
+    ...view,
+    ...pickSceneFields(project),
+    scenes: (view.scenes ?? []).map((s: ProjectData) => s.id === sceneId ? { ...s, ...pickSceneFields(view) } : s),
+  };
+};
+
+// Merges `update(scene)` into the first scene and every further one
+export const updateScenes = <T extends ProjectData>(project: T, update: (scene: ProjectData) => ProjectData): T => ({
+  ...project,
+  ...update(project),
+  ...(Array.isArray(project.scenes)
+    ? { scenes: project.scenes.map((scene: ProjectData) => ({ ...scene, ...update(scene) })) }
+    : {}),
+});
+
+export const updateScenesAsync = async <T extends ProjectData>(
+  project: T,
+  update: (scene: ProjectData) => Promise<ProjectData>,
+): Promise<T> => ({
+  ...project,
+  ...(await update(project)),
+  ...(Array.isArray(project.scenes)
+    ? { scenes: await Promise.all(project.scenes.map(async (scene: ProjectData) => ({ ...scene, ...(await update(scene)) }))) }
+    : {}),
+});
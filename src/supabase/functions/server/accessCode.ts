@@ -0,0 +1,65 @@
+// Access codes for protected share links.
+//
+// Only a salted PBKDF2 hash is stored, as "pbkdf2$<iterations>$<salt>$<hash>"
+// (salt and hash hex-encoded), so a leaked table doesn't reveal the codes.
+
+export const MIN_ACCESS_CODE_LENGTH = 4;
+export const MAX_ACCESS_CODE_LENGTH = 64;
+
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toHex = (bytes: Uint8Array) => {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const fromHex = (hex: string) => {
+  return new Uint8Array((hex.match(/../g) || []).map((pair) => parseInt(pair, 16)));
+};
+
+async function derive(code: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(code.normalize("NFKC")),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+// Returns an error message for an unusable code, or null
+export function checkAccessCode(code: unknown) {
+  if (typeof code !== "string") return "Access code must be text";
+  const length = code.trim().length;
+  if (length < MIN_ACCESS_CODE_LENGTH || length > MAX_ACCESS_CODE_LENGTH) {
+    return `Access code must be ${MIN_ACCESS_CODE_LENGTH} to ${MAX_ACCESS_CODE_LENGTH} characters`;
+  }
+  return null;
+}
+
+export async function hashAccessCode(code: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(code.trim(), salt, ITERATIONS);
+  return `pbkdf2$${ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export async function verifyAccessCode(code: string, stored: string) {
+  const [scheme, iterations, salt, expected] = stored.split("$");
+  if (scheme !== "pbkdf2" || !iterations || !salt || !expected) return false;
+
+  const actual = await derive(code.trim(), fromHex(salt), Number(iterations));
+  const wanted = fromHex(expected);
+  if (actual.length !== wanted.length) return false;
+
+  // Compare every byte so the time taken doesn't hint at how much matched
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ wanted[i];
+  return diff === 0;
+}
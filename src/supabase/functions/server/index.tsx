@@ -1,8 +1,15 @@
-import { Hono } from "npm:hono";
+import { Hono, type Context } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "@supabase/supabase-js";
 import { requireUser } from "./auth.ts";
+import { collectReferencedPaths, runStorageGc } from "./storageGc.ts";
+import { CURRENT_SCHEMA_VERSION, migrateProject, ProjectSchemaError } from "../_shared/projectSchema.ts";
+import { allHotspots, updateScenes, updateScenesAsync } from "../_shared/scenes.ts";
+import { LIMITS, validateProjectForWrite, type WriteContext } from "./projectValidation.ts";
+import { clientFingerprint, createKvStore, createRateLimiter } from "./rateLimit.ts";
+import { checkAccessCode, hashAccessCode, verifyAccessCode } from "./accessCode.ts";
+import * as kv from "./kv_store.tsx";
 
 const app = new Hono();
 
@@ -17,8 +24,9 @@ app.use(
   "/*",
   cors({
     origin: (origin) => (allowedOrigins.includes(origin ?? "") ? origin : ""),
-    allowHeaders: ["Content-Type", "Authorization"],
-    allowMethods: ["GET", "POST"],
+    allowHeaders: ["Content-Type", "Authorization", "X-Access-Code"],
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE"],
+    exposeHeaders: ["Retry-After"],
     maxAge: 600,
   }),
 );
@@ -26,6 +34,31 @@ app.use(
 // CONSTANTS
 const BUCKET_NAME = "make-5be515e6-assets";
 
+// Request budgets per route: `limit` requests per `windowMs` for each client
+// address (unauthenticated routes) or each user
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const RATE_LIMITS = {
+  signup: { limit: 5, windowMs: HOUR },
+  report: { limit: 10, windowMs: HOUR },
+  validateAudio: { limit: 30, windowMs: 10 * MINUTE },
+  invite: { limit: 20, windowMs: 24 * HOUR },
+  upload: { limit: 120, windowMs: 10 * MINUTE },
+  share: { limit: 30, windowMs: HOUR },
+  publish: { limit: 30, windowMs: HOUR },
+  accessCode: { limit: 10, windowMs: 15 * MINUTE }, // Wrong codes per client and link
+  accessCodePerLink: { limit: 100, windowMs: 15 * MINUTE }, // Wrong codes per link from all clients
+};
+
+// The same client reporting the same zone again within this window gets the
+// existing report back instead of a new one
+const REPORT_DEDUP_MS = 24 * HOUR;
+
+const rateLimiter = createRateLimiter(createKvStore({
+  get: (key) => kv.get(key),
+  set: (key, value) => kv.set(key, value),
+}));
+
 // Helper to create Supabase Admin Client
 const getSupabaseAdmin = () => {
   return createClient(
@@ -64,6 +97,9 @@ app.post("/make-server-5be515e6/storage/upload-url", async (c) => {
     const { user, response } = await requireUser(c);
     if (!user) return response;
 
+    const limited = await rateLimiter.consume(c, "upload", `user:${user.id}`, RATE_LIMITS.upload);
+    if (limited) return limited;
+
     const { path } = await c.req.json();
     if (!path) {
       return c.json({ error: "Path required" }, 400);
@@ -125,6 +161,71 @@ app.post("/make-server-5be515e6/storage/get-url", async (c) => {
   }
 });
 
+// Copies a file, e.g. into the folder of a copied project
+app.post("/make-server-5be515e6/storage/copy", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const { from, to } = await c.req.json();
+    if (!from || !to) {
+      return c.json({ error: "Source and destination required" }, 400);
+    }
+
+    // 🔒 Enforce user-owned paths on both ends
+    if (!from.startsWith(`${user.id}/`) || !to.startsWith(`${user.id}/`)) {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.storage.from(BUCKET_NAME).copy(from, to);
+
+    if (error) {
+      return c.json({ error: error.message }, 400);
+    }
+
+    return c.json({ path: to });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Garbage-collect unreferenced uploads (admin only).
+// Dry run unless the body says `"dryRun": false`; the report lists what would be
+// (or was) deleted either way.
+app.post("/make-server-5be515e6/admin/storage/gc", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    if (user.app_metadata?.role !== "admin") {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const graceHours = body.graceHours === undefined ? undefined : Number(body.graceHours);
+    if (graceHours !== undefined && (!Number.isFinite(graceHours) || graceHours < 0)) {
+      return c.json({ error: "graceHours must be a non-negative number" }, 400);
+    }
+
+    const report = await runStorageGc(getSupabaseAdmin(), BUCKET_NAME, {
+      dryRun: body.dryRun !== false,
+      graceHours,
+      userId: typeof body.userId === "string" ? body.userId : undefined,
+    });
+
+    if (!report.dryRun) {
+      console.log(`Storage GC removed ${report.deleted.length} of ${report.scanned} objects`);
+    }
+
+    return c.json({ report });
+  } catch (err) {
+    console.error("Storage GC error:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // ---------------------------------------------------------------------------
 // DATA PERSISTENCE (KV Store)
 // ---------------------------------------------------------------------------
@@ -145,30 +246,333 @@ app.get("/make-server-5be515e6/projects", async (c) => {
   }
 
   return c.json({
-    projects: data.map((p) => ({ id: p.id, ...p.data })),
+    projects: data.map(upgradeStored),
   });
 });
 
-app.post("/make-server-5be515e6/projects", async (c) => {
-  const { user, response } = await requireUser(c);
-  if (!user) return response;
+// Stored documents are sent out upgraded to the current schema. One that can't
+// be upgraded is sent as stored; the app reports it when opening it.
+const upgradeStored = (row: { id: string; data: any }) => {
+  try {
+    return { id: row.id, ...migrateProject(row.data) };
+  } catch (err) {
+    console.warn(`Project ${row.id} does not match the schema:`, (err as Error).message);
+    return { id: row.id, ...row.data };
+  }
+};
 
-  const { projects } = await c.req.json();
-  const supabase = getSupabaseAdmin();
+// Upgrades and validates a document before it is written.
+// Returns either the data to store or the error response (with one issue per
+// offending field) to send.
+const prepareForWrite = (c: Context, data: unknown, context: WriteContext) => {
+  try {
+    const { project, issues } = validateProjectForWrite(migrateProject(data), context);
+    if (issues.length > 0) throw new ProjectSchemaError(issues);
+    return { data: project, response: null };
+  } catch (err) {
+    if (!(err instanceof ProjectSchemaError)) throw err;
+    return { data: null, response: c.json({ error: err.message, issues: err.issues }, 400) };
+  }
+};
+
+// Apps from before the current schema don't know every field and would drop
+// the ones they don't (e.g. scenes) from the project they save, so their
+// writes are refused. Returns the error response to send, if any.
+const refuseOutdatedWrite = (c: Context, schemaVersion: unknown) => {
+  if (typeof schemaVersion === "number" && schemaVersion >= CURRENT_SCHEMA_VERSION) return null;
+  const issues = [{ path: "schemaVersion", message: "Sent by an older version of the app. Reload the page to keep editing." }];
+  return c.json({ error: new ProjectSchemaError(issues).message, issues }, 400);
+};
+
+// Loads a project row and checks it belongs to the user.
+// Returns either the row or the error response to send.
+const getOwnedProject = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  c: Context,
+  projectId: string,
+  userId: string,
+) => {
+  const { data: row, error } = await supabase
+    .from("projects")
+    .select("id, user_id, data")
+    .eq("id", projectId)
+    .maybeSingle();
+
+  if (error) {
+    return { row: null, response: c.json({ error: error.message }, 500) };
+  }
+  if (!row) {
+    return { row: null, response: c.json({ error: "Project not found" }, 404) };
+  }
+  // 🔒 Only the owner may read or change a project
+  if (row.user_id !== userId) {
+    return { row: null, response: c.json({ error: "Forbidden" }, 403) };
+  }
+  return { row, response: null };
+};
+
+// All storage objects of a project live under `<userId>/<projectId>/`
+const listProjectObjects = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  userId: string,
+  projectId: string,
+) => {
+  const prefix = `${userId}/${projectId}`;
+  const paths: string[] = [];
+  const pageSize = 1000;
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .list(prefix, { limit: pageSize, offset });
+    if (error) throw error;
+    paths.push(...(data || []).map((object) => `${prefix}/${object.name}`));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return paths;
+};
+
+// Every storage path the user's projects, publications and templates point to,
+// except those of the project or template `except` names
+const collectUserPaths = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  userId: string,
+  except: { projectId?: string; templateId?: string },
+) => {
+  const queries = [
+    supabase.from("projects").select("data").eq("user_id", userId).neq("id", except.projectId ?? ""),
+    supabase.from("project_publications").select("data").eq("user_id", userId).neq("project_id", except.projectId ?? ""),
+    supabase.from("project_templates").select("data").eq("user_id", userId).neq("id", except.templateId ?? ""),
+  ];
+
+  const paths = new Set<string>();
+  for (const { data, error } of await Promise.all(queries)) {
+    if (error) throw error;
+    (data || []).forEach((row) => collectReferencedPaths(row.data, paths));
+  }
+  return paths;
+};
+
+// Optimistic concurrency: every save bumps `data.version`. A save must name the
+// version it was based on; if the stored one has moved on, the client gets a 409
+// with the current server copy and decides how to resolve it.
+const conflict = (c: Context, row: { id: string; data: any }) => {
+  return c.json({ error: "Conflict", project: upgradeStored(row) }, 409);
+};
+
+// Writes `data` over an existing row, but only if nobody saved in between
+// reading `row` and now. Returns the response to send.
+const writeVersioned = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  c: Context,
+  row: { id: string; data: any },
+  data: Record<string, unknown>,
+) => {
+  const storedVersion: number = row.data?.version ?? 0;
+  const version = storedVersion + 1;
+  const updatedAt = new Date().toISOString();
+
+  let query = supabase
+    .from("projects")
+    .update({ data: { ...data, id: row.id, version, updatedAt } })
+    .eq("id", row.id);
+  query = storedVersion > 0
+    ? query.eq("data->>version", String(storedVersion))
+    : query.is("data->>version", null);
 
-  for (const project of projects) {
-    await supabase.from("projects").upsert({
-      id: project.id ?? undefined,
+  const { data: updated, error } = await query.select("id");
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!updated || updated.length === 0) {
+    // Lost the race against another save
+    const { data: latest } = await supabase
+      .from("projects")
+      .select("id, data")
+      .eq("id", row.id)
+      .maybeSingle();
+    return latest ? conflict(c, latest) : c.json({ error: "Project not found" }, 404);
+  }
+
+  return c.json({ success: true, version, updatedAt });
+};
+
+const isStale = (row: { data: any }, baseVersion: unknown, force: unknown) => {
+  return force !== true && Number(baseVersion ?? 0) !== (row.data?.version ?? 0);
+};
+
+app.get("/make-server-5be515e6/projects/:id", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, c.req.param("id"), user.id);
+    if (!row) return error;
+
+    return c.json({ project: upgradeStored(row) });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Create or replace a whole project
+app.put("/make-server-5be515e6/projects/:id", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const projectId = c.req.param("id");
+    const { project, baseVersion, force } = await c.req.json();
+    if (!project || typeof project !== "object") {
+      return c.json({ error: "Project required" }, 400);
+    }
+    const outdated = refuseOutdatedWrite(c, project.schemaVersion);
+    if (outdated) return outdated;
+
+    const supabase = getSupabaseAdmin();
+    const { data: existing, error: lookupError } = await supabase
+      .from("projects")
+      .select("id, user_id, data")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (lookupError) {
+      return c.json({ error: lookupError.message }, 500);
+    }
+    // 🔒 Never let a client take over someone else's project id
+    if (existing && existing.user_id !== user.id) {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { data: upgraded, response: invalid } = prepareForWrite(c, { ...project, id: projectId }, {
+      userId: user.id,
+      projectId,
+      stored: existing?.data,
+    });
+    if (!upgraded) return invalid;
+
+    if (existing) {
+      if (isStale(existing, baseVersion, force)) return conflict(c, existing);
+      return await writeVersioned(supabase, c, existing, upgraded);
+    }
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await supabase.from("projects").insert({
+      id: projectId,
       user_id: user.id,
-      data: project,
+      data: { ...upgraded, version: 1, updatedAt },
     });
+
+    if (error) {
+      return c.json({ error: error.message }, 500);
+    }
+
+    return c.json({ success: true, version: 1, updatedAt });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
   }
+});
+
+// Update only the given top-level fields of an existing project
+app.patch("/make-server-5be515e6/projects/:id", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const projectId = c.req.param("id");
+    const { changes, baseVersion, force } = await c.req.json();
+    if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+      return c.json({ error: "Changes required" }, 400);
+    }
+    const outdated = refuseOutdatedWrite(c, changes.schemaVersion);
+    if (outdated) return outdated;
 
-  return c.json({ success: true });
+    const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, projectId, user.id);
+    if (!row) return error;
+
+    if (isStale(row, baseVersion, force)) return conflict(c, row);
+
+    // The stored copy may predate the current schema; upgrade it before merging
+    const stored = upgradeStored(row);
+    const { data: merged, response: invalid } = prepareForWrite(c, { ...stored, ...changes, id: projectId }, {
+      userId: user.id,
+      projectId,
+      stored: row.data,
+    });
+    if (!merged) return invalid;
+
+    return await writeVersioned(supabase, c, row, merged);
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Delete a project together with its share links, publications and uploaded files
+app.delete("/make-server-5be515e6/projects/:id", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const projectId = c.req.param("id");
+    const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, projectId, user.id);
+    if (!row) return error;
+
+    const { error: sharesError } = await supabase
+      .from("project_shares")
+      .delete()
+      .eq("project_id", projectId);
+    if (sharesError) {
+      return c.json({ error: sharesError.message }, 500);
+    }
+
+    const { error: publicationsError } = await supabase
+      .from("project_publications")
+      .delete()
+      .eq("project_id", projectId);
+    if (publicationsError) {
+      return c.json({ error: publicationsError.message }, 500);
+    }
+
+    // Files another project or template still points to must survive. Saves no
+    // longer accept paths outside the project's folder, but older copies may share them.
+    const stillUsed = await collectUserPaths(supabase, user.id, { projectId });
+
+    const paths = (await listProjectObjects(supabase, user.id, projectId))
+      .filter((path) => !stillUsed.has(path));
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .remove(paths);
+      if (storageError) {
+        return c.json({ error: storageError.message }, 500);
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from("projects")
+      .delete()
+      .eq("id", projectId);
+    if (deleteError) {
+      return c.json({ error: deleteError.message }, 500);
+    }
+
+    return c.json({ success: true, removedFiles: paths.length });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
 });
 
 // Signup Route (Auto-confirm email)
-app.post("/make-server-5be515e6/signup", async (c) => {
+app.post("/make-server-5be515e6/signup", rateLimiter.perClient("signup", RATE_LIMITS.signup), async (c) => {
   try {
     const { email, password, name } = await c.req.json();
 
@@ -209,6 +613,9 @@ app.post("/make-server-5be515e6/invite", async (c) => {
       return c.json({ error: "Forbidden" }, 403);
     }
 
+    const limited = await rateLimiter.consume(c, "invite", `user:${user.id}`, RATE_LIMITS.invite);
+    if (limited) return limited;
+
     // 3️⃣ Input validation
     const { email } = await c.req.json();
     if (!email) {
@@ -279,7 +686,7 @@ app.post("/make-server-5be515e6/user/preferences", async (c) => {
 // AUDIO VALIDATION
 // ---------------------------------------------------------------------------
 
-app.post("/make-server-5be515e6/validate-audio", async (c) => {
+app.post("/make-server-5be515e6/validate-audio", rateLimiter.perClient("validateAudio", RATE_LIMITS.validateAudio), async (c) => {
   try {
     const contentType = c.req.header("content-type");
 
@@ -377,7 +784,7 @@ app.post("/make-server-5be515e6/validate-audio", async (c) => {
 // REPORTING SYSTEM
 // ---------------------------------------------------------------------------
 
-app.post("/make-server-5be515e6/report-audio", async (c) => {
+app.post("/make-server-5be515e6/report-audio", rateLimiter.perClient("report", RATE_LIMITS.report), async (c) => {
   try {
     const { projectId, hotspotId, reason } = await c.req.json();
 
@@ -385,16 +792,27 @@ app.post("/make-server-5be515e6/report-audio", async (c) => {
       return c.json({ error: "Missing required fields" }, 400);
     }
 
+    // One report per zone and client: repeats return the report already filed
+    const reporter = await clientFingerprint(c);
+    const dedupKey = `reported_${projectId}_${hotspotId}_${reporter}`;
+    const previous = await kv.get(dedupKey);
+    if (previous && Date.now() - previous.at < REPORT_DEDUP_MS) {
+      return c.json({ success: true, reportId: previous.reportId, duplicate: true });
+    }
+
     const reportId = `${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
     const key = `report_${reportId}`;
 
     await kv.set(key, {
+      id: reportId,
       projectId,
       hotspotId,
       reason,
+      reporter,
       timestamp: new Date().toISOString(),
       status: "pending",
     });
+    await kv.set(dedupKey, { reportId, at: Date.now() });
 
     console.log(
       `Audio report created: ${reportId} for project ${projectId}, hotspot ${hotspotId}`,
@@ -407,30 +825,842 @@ app.post("/make-server-5be515e6/report-audio", async (c) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// MODERATION (admin only)
+// ---------------------------------------------------------------------------
+
+const REPORT_STATUSES = ["pending", "dismissed", "actioned"];
+
+// The project and zone a report points at; either may have been deleted since
+const findReportedHotspot = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  report: { projectId: string; hotspotId: string },
+) => {
+  const { data: row, error } = await supabase
+    .from("projects")
+    .select("id, data")
+    .eq("id", report.projectId)
+    .maybeSingle();
+  if (error) throw error;
+  const hotspot = row?.data ? allHotspots(row.data).find((h: any) => h.id === report.hotspotId) ?? null : null;
+  return { row, hotspot };
+};
+
+// List reports, newest first. `?status=pending|dismissed|actioned|all`, default pending.
+app.get("/make-server-5be515e6/admin/reports", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    if (user.app_metadata?.role !== "admin") {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const status = c.req.query("status") ?? "pending";
+    if (status !== "all" && !REPORT_STATUSES.includes(status)) {
+      return c.json({ error: "Unknown status" }, 400);
+    }
+
+    // Reports written before they stored their own id can't be addressed
+    const reports = ((await kv.getByPrefix("report_")) || [])
+      .filter((r: any) => r?.id && (status === "all" || r.status === status))
+      .sort((a: any, b: any) => b.timestamp.localeCompare(a.timestamp));
+
+    const supabase = getSupabaseAdmin();
+    const projectIds = [...new Set(reports.map((r: any) => r.projectId))];
+    const { data: rows, error } = await supabase
+      .from("projects")
+      .select("id, data")
+      .in("id", projectIds);
+
+    if (error) {
+      return c.json({ error: error.message }, 500);
+    }
+
+    const projects = new Map((rows || []).map((row) => [row.id, row.data]));
+
+    return c.json({
+      reports: reports.map((r: any) => {
+        const project = projects.get(r.projectId);
+        const hotspot = project ? allHotspots(project).find((h: any) => h.id === r.hotspotId) : undefined;
+        return {
+          ...r,
+          projectTitle: project?.title ?? null,
+          hotspotName: hotspot?.name ?? null,
+          hasAudio: Boolean(hotspot?.audioPath),
+          audioDisabled: Boolean(hotspot?.audioDisabled),
+        };
+      }),
+    });
+  } catch (err) {
+    console.error("List reports error:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Short-lived URL to listen to the reported audio
+app.get("/make-server-5be515e6/admin/reports/:id/audio", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    if (user.app_metadata?.role !== "admin") {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const report = await kv.get(`report_${c.req.param("id")}`);
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { hotspot } = await findReportedHotspot(supabase, report);
+    if (!hotspot?.audioPath) {
+      return c.json({ error: "The reported zone no longer has audio" }, 404);
+    }
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .createSignedUrl(hotspot.audioPath, 600);
+
+    if (error) {
+      return c.json({ error: error.message }, 400);
+    }
+
+    return c.json({ url: data.signedUrl });
+  } catch (err) {
+    console.error("Report audio error:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Close a report as dismissed or actioned. Actioning with `disableAudio: true`
+// also switches off the zone's audio wherever the project is played, including
+// its publications.
+app.post("/make-server-5be515e6/admin/reports/:id/resolve", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    if (user.app_metadata?.role !== "admin") {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const reportId = c.req.param("id");
+    const { status, disableAudio } = await c.req.json();
+    if (status !== "dismissed" && status !== "actioned") {
+      return c.json({ error: "Status must be dismissed or actioned" }, 400);
+    }
+    if (disableAudio && status !== "actioned") {
+      return c.json({ error: "Only an actioned report can disable audio" }, 400);
+    }
+
+    const key = `report_${reportId}`;
+    const report = await kv.get(key);
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
+    }
+
+    if (disableAudio) {
+      const supabase = getSupabaseAdmin();
+      const { row, hotspot } = await findReportedHotspot(supabase, report);
+      if (!row || !hotspot) {
+        return c.json({ error: "The reported zone no longer exists" }, 404);
+      }
+
+      // The zone may be in any scene
+      const disableZone = (data: any) => updateScenes(data, (scene) => ({
+        hotspots: (scene.hotspots ?? []).map((h: any) => h.id === hotspot.id ? { ...h, audioDisabled: true } : h),
+      }));
+
+      // Bumps the version, so an owner editing the project sees the change
+      const written = await writeVersioned(supabase, c, row, disableZone(row.data));
+      if (!written.ok) return written;
+
+      // Publications are otherwise never changed, but visitors must not keep
+      // hearing the reported audio through them
+      const { data: publications, error: publicationsError } = await supabase
+        .from("project_publications")
+        .select("id, data")
+        .eq("project_id", row.id);
+      if (publicationsError) {
+        return c.json({ error: publicationsError.message }, 500);
+      }
+
+      for (const publication of publications || []) {
+        if (!publication.data || !allHotspots(publication.data).some((h: any) => h.id === hotspot.id)) continue;
+
+        const { error: updateError } = await supabase
+          .from("project_publications")
+          .update({ data: disableZone(publication.data) })
+          .eq("id", publication.id);
+        if (updateError) {
+          return c.json({ error: updateError.message }, 500);
+        }
+      }
+    }
+
+    const resolved = {
+      ...report,
+      status,
+      audioDisabled: Boolean(disableAudio),
+      resolvedAt: new Date().toISOString(),
+      resolvedBy: user.email ?? user.id,
+    };
+    await kv.set(key, resolved);
+
+    console.log(`Report ${reportId} ${status} by ${user.id}`);
+
+    return c.json({ report: resolved });
+  } catch (err) {
+    console.error("Resolve report error:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// PUBLISHING
+// ---------------------------------------------------------------------------
+
+// Visitors see a published copy of a project, not the working draft. Publishing
+// stores the saved draft in `project_publications`, numbered per project; a row
+// is never changed afterwards except to switch off reported audio. Table:
+//   id uuid primary key default gen_random_uuid(),
+//   project_id text not null, user_id uuid not null, number int not null,
+//   draft_version int not null, data jsonb not null,
+//   created_at timestamptz not null default now(), unique (project_id, number)
+
+const PUBLICATION_COLUMNS = "id, project_id, number, draft_version, created_at";
+
+type PublicationRow = {
+  id: string;
+  project_id: string;
+  number: number;
+  draft_version: number; // `data.version` of the draft it was made from
+  created_at: string;
+};
+
+const toPublication = (row: PublicationRow) => ({
+  id: row.id,
+  number: row.number,
+  draftVersion: row.draft_version,
+  createdAt: row.created_at,
+});
+
+// The given publication of a project, or its newest one when `publicationId`
+// is null. Null when there is no such publication.
+const findPublication = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  projectId: string,
+  publicationId: string | null,
+) => {
+  let query = supabase
+    .from("project_publications")
+    .select(`${PUBLICATION_COLUMNS}, data`)
+    .eq("project_id", projectId);
+  query = publicationId
+    ? query.eq("id", publicationId)
+    : query.order("number", { ascending: false }).limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data as (PublicationRow & { data: any }) | null;
+};
+
+// Publish the saved draft. `baseVersion` is the draft version the owner is
+// looking at; if the stored one differs they get a 409 like a stale save, so
+// nothing they haven't seen is published.
+app.post("/make-server-5be515e6/projects/:id/publish", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const projectId = c.req.param("id");
+    const { baseVersion } = await c.req.json().catch(() => ({}));
+
+    const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, projectId, user.id);
+    if (!row) return error;
+
+    if (isStale(row, baseVersion, false)) return conflict(c, row);
+
+    const limited = await rateLimiter.consume(c, "publish", `user:${user.id}`, RATE_LIMITS.publish);
+    if (limited) return limited;
+
+    // Checked like a save, so a publication is always a valid document
+    const { data: snapshot, response: invalid } = prepareForWrite(c, upgradeStored(row), {
+      userId: user.id,
+      projectId,
+      stored: row.data,
+    });
+    if (!snapshot) return invalid;
+
+    const { data: latest, error: latestError } = await supabase
+      .from("project_publications")
+      .select("number")
+      .eq("project_id", projectId)
+      .order("number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      return c.json({ error: latestError.message }, 500);
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("project_publications")
+      .insert({
+        project_id: projectId,
+        user_id: user.id,
+        number: (latest?.number ?? 0) + 1,
+        draft_version: row.data?.version ?? 0,
+        data: snapshot,
+      })
+      .select(PUBLICATION_COLUMNS)
+      .single();
+
+    if (insertError) {
+      // unique (project_id, number): another publish got there first
+      if (insertError.code === "23505") {
+        return c.json({ error: "The project is already being published" }, 409);
+      }
+      return c.json({ error: insertError.message }, 500);
+    }
+
+    return c.json(toPublication(created));
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Every publication of a project, newest first
+app.get("/make-server-5be515e6/projects/:id/publications", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const projectId = c.req.param("id");
+    const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, projectId, user.id);
+    if (!row) return error;
+
+    const { data, error: listError } = await supabase
+      .from("project_publications")
+      .select(PUBLICATION_COLUMNS)
+      .eq("project_id", projectId)
+      .order("number", { ascending: false });
+
+    if (listError) {
+      return c.json({ error: listError.message }, 500);
+    }
+
+    return c.json({ publications: (data || []).map(toPublication) });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// TEMPLATES
+// ---------------------------------------------------------------------------
+
+// Projects saved as starting points for new ones, in `project_templates`. A
+// template keeps copies of its files under `<userId>/<templateId>/`, so it is
+// unaffected when the project it was made from changes or is deleted. Table:
+//   id text primary key, user_id uuid not null, name text not null,
+//   data jsonb not null, created_at timestamptz not null default now()
+
+const MAX_TEMPLATES = 50; // Per user
+
+const toTemplate = (row: { id: string; name: string; data: any; created_at: string }) => ({
+  id: row.id,
+  name: row.name,
+  project: row.data,
+  createdAt: row.created_at,
+});
+
+// The user's templates, newest first
+app.get("/make-server-5be515e6/templates", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from("project_templates")
+      .select("id, name, data, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      return c.json({ error: error.message }, 500);
+    }
+
+    return c.json({ templates: (data || []).map(toTemplate) });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Save a template. The client picks the id and copies the files into its
+// folder first; the project is checked like a save to that folder.
+app.post("/make-server-5be515e6/templates", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const { id, name, project } = await c.req.json();
+    if (typeof id !== "string" || !id || id.includes("/")) {
+      return c.json({ error: "Template id required" }, 400);
+    }
+    if (typeof name !== "string" || !name.trim() || name.length > LIMITS.titleLength) {
+      return c.json({ error: `Name must be 1 to ${LIMITS.titleLength} characters` }, 400);
+    }
+
+    const { data: template, response: invalid } = prepareForWrite(c, project, {
+      userId: user.id,
+      projectId: id,
+    });
+    if (!template) return invalid;
+
+    const supabase = getSupabaseAdmin();
+    const { count, error: countError } = await supabase
+      .from("project_templates")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    if (countError) {
+      return c.json({ error: countError.message }, 500);
+    }
+    if ((count ?? 0) >= MAX_TEMPLATES) {
+      return c.json({ error: `At most ${MAX_TEMPLATES} templates are allowed` }, 400);
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("project_templates")
+      .insert({ id, user_id: user.id, name: name.trim(), data: template })
+      .select("id, name, data, created_at")
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return c.json({ error: "A template with this id already exists" }, 409);
+      }
+      return c.json({ error: insertError.message }, 500);
+    }
+
+    return c.json(toTemplate(created));
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Delete a template and the files only it used
+app.delete("/make-server-5be515e6/templates/:id", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const templateId = c.req.param("id");
+    const supabase = getSupabaseAdmin();
+    const { data: row, error } = await supabase
+      .from("project_templates")
+      .select("id, user_id")
+      .eq("id", templateId)
+      .maybeSingle();
+
+    if (error) {
+      return c.json({ error: error.message }, 500);
+    }
+    if (!row) {
+      return c.json({ error: "Template not found" }, 404);
+    }
+    // 🔒 Only the owner may delete a template
+    if (row.user_id !== user.id) {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const stillUsed = await collectUserPaths(supabase, user.id, { templateId });
+    const paths = (await listProjectObjects(supabase, user.id, templateId))
+      .filter((path) => !stillUsed.has(path));
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .remove(paths);
+      if (storageError) {
+        return c.json({ error: storageError.message }, 500);
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from("project_templates")
+      .delete()
+      .eq("id", templateId);
+    if (deleteError) {
+      return c.json({ error: deleteError.message }, 500);
+    }
+
+    return c.json({ success: true, removedFiles: paths.length });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // ---------------------------------------------------------------------------
 // PUBLIC ACCESS (Shared Projects)
 // ---------------------------------------------------------------------------
 
+// Share links live in `project_shares`. A link stops working once
+// `revoked_at` is set or `expires_at` has passed; rows are kept so the owner
+// can still see them. A link with an `access_code_hash` only opens with its
+// code (see accessCode.ts). A link opens the publication in `publication_id`,
+// or the newest one when that is null. Links never show the draft, so those of
+// a project that was never published don't open until it is.
+// Columns beyond the original (short_id, project_id):
+//   created_at timestamptz not null default now(),
+//   expires_at timestamptz, revoked_at timestamptz, access_code_hash text,
+//   publication_id uuid references project_publications(id)
+
+const SHARE_COLUMNS = "short_id, project_id, created_at, expires_at, revoked_at, access_code_hash, publication_id";
+
+const SHARE_ID_LENGTH = 10;
+const SHARE_ID_ALPHABET = "abcdefghijkmnpqrstuvwxyz23456789"; // No look-alike characters
+const MAX_SHARE_HOURS = 24 * 365;
+
+type ShareRow = {
+  short_id: string;
+  project_id: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  access_code_hash: string | null;
+  publication_id: string | null;
+};
+
+const generateShortId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_ID_LENGTH));
+  return Array.from(bytes, (b) => SHARE_ID_ALPHABET[b % SHARE_ID_ALPHABET.length]).join("");
+};
+
+const shareStatus = (row: ShareRow, now = Date.now()) => {
+  if (row.revoked_at) return "revoked";
+  if (row.expires_at && new Date(row.expires_at).getTime() <= now) return "expired";
+  return "active";
+};
+
+const toShareLink = (row: ShareRow) => ({
+  shortId: row.short_id,
+  projectId: row.project_id,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+  status: shareStatus(row),
+  protected: Boolean(row.access_code_hash),
+  publicationId: row.publication_id,
+});
+
+// `expiresInHours`: a positive number of hours, or null/undefined for no expiry.
+// Returns the timestamp to store, or undefined when the value is invalid.
+const parseExpiry = (expiresInHours: unknown) => {
+  if (expiresInHours === null || expiresInHours === undefined) return null;
+  const hours = Number(expiresInHours);
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_SHARE_HOURS) return undefined;
+  return new Date(Date.now() + hours * HOUR).toISOString();
+};
+
+const insertShare = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  projectId: string,
+  expiresAt: string | null,
+  accessCodeHash: string | null = null,
+  publicationId: string | null = null,
+) => {
+  const { data, error } = await supabase
+    .from("project_shares")
+    .insert({
+      short_id: generateShortId(),
+      project_id: projectId,
+      expires_at: expiresAt,
+      access_code_hash: accessCodeHash,
+      publication_id: publicationId,
+    })
+    .select(SHARE_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as ShareRow;
+};
+
+// A link that still opens its project, or null
+const findActiveShare = async (supabase: ReturnType<typeof getSupabaseAdmin>, shortId: string) => {
+  const { data, error } = await supabase
+    .from("project_shares")
+    .select(SHARE_COLUMNS)
+    .eq("short_id", shortId)
+    .maybeSingle();
+  if (error) throw error;
+  return data && shareStatus(data) === "active" ? (data as ShareRow) : null;
+};
+
+// `publicationId`: a publication of the project, or null for its newest one.
+// Returns false for anything else.
+const isPublicationOf = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  projectId: string,
+  publicationId: unknown,
+) => {
+  if (publicationId === null) return true;
+  if (typeof publicationId !== "string") return false;
+  return Boolean(await findPublication(supabase, projectId, publicationId));
+};
+
+// Loads a share link whose project belongs to the user.
+// Returns either the row or the error response to send.
+const getOwnedShare = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  c: Context,
+  shortId: string,
+  userId: string,
+) => {
+  const { data: share, error } = await supabase
+    .from("project_shares")
+    .select(SHARE_COLUMNS)
+    .eq("short_id", shortId)
+    .maybeSingle();
+
+  if (error) {
+    return { share: null, response: c.json({ error: error.message }, 500) };
+  }
+  if (!share) {
+    return { share: null, response: c.json({ error: "Share link not found" }, 404) };
+  }
+
+  const { row, response } = await getOwnedProject(supabase, c, share.project_id, userId);
+  if (!row) return { share: null, response };
+  return { share: share as ShareRow, response: null };
+};
+
+// Get a link for a project. Returns the newest active link unless `reuse` is
+// false or an expiry, access code or publication is asked for, in which case a
+// new link is made.
 app.post("/make-server-5be515e6/share", async (c) => {
   try {
     const { user, response } = await requireUser(c);
     if (!user) return response;
 
-    const { projectId } = await c.req.json();
+    const { projectId, expiresInHours, accessCode, publicationId = null, reuse = true } = await c.req.json();
     if (!projectId) {
       return c.json({ error: "Missing projectId" }, 400);
     }
 
-    const shortId = Math.random().toString(36).substring(2, 8);
-    const key = `share_${shortId}`;
+    const expiresAt = parseExpiry(expiresInHours);
+    if (expiresAt === undefined) {
+      return c.json({ error: `expiresInHours must be between 0 and ${MAX_SHARE_HOURS}` }, 400);
+    }
+
+    const codeError = accessCode === undefined ? null : checkAccessCode(accessCode);
+    if (codeError) {
+      return c.json({ error: codeError }, 400);
+    }
+
     const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, projectId, user.id);
+    if (!row) return error;
 
-    await supabase.from("project_shares").insert({
-      short_id: shortId,
-      project_id,
-    });
+    if (!(await isPublicationOf(supabase, projectId, publicationId))) {
+      return c.json({ error: "Not a publication of this project" }, 400);
+    }
+
+    if (reuse && !expiresAt && accessCode === undefined && publicationId === null) {
+      const { data: existing, error: listError } = await supabase
+        .from("project_shares")
+        .select(SHARE_COLUMNS)
+        .eq("project_id", projectId)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false });
+
+      if (listError) {
+        return c.json({ error: listError.message }, 500);
+      }
 
-    return c.json({ shortId });
+      const active = (existing || []).find((share) => shareStatus(share) === "active" && !share.publication_id);
+      if (active) return c.json(toShareLink(active));
+    }
+
+    // Only minting new links counts against the budget
+    const limited = await rateLimiter.consume(c, "share", `user:${user.id}`, RATE_LIMITS.share);
+    if (limited) return limited;
+
+    const accessCodeHash = accessCode === undefined ? null : await hashAccessCode(accessCode);
+    return c.json(toShareLink(await insertShare(supabase, projectId, expiresAt, accessCodeHash, publicationId)));
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Every link of a project, newest first
+app.get("/make-server-5be515e6/projects/:id/shares", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const projectId = c.req.param("id");
+    const supabase = getSupabaseAdmin();
+    const { row, response: error } = await getOwnedProject(supabase, c, projectId, user.id);
+    if (!row) return error;
+
+    const { data, error: listError } = await supabase
+      .from("project_shares")
+      .select(SHARE_COLUMNS)
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false });
+
+    if (listError) {
+      return c.json({ error: listError.message }, 500);
+    }
+
+    return c.json({ shares: (data || []).map(toShareLink) });
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Change when a link expires, whether it needs an access code and which
+// publication it opens. Only the fields present are changed; `null` removes the
+// time limit or the code, or makes the link follow the newest publication.
+app.patch("/make-server-5be515e6/share/:shortId", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const body = await c.req.json();
+    const changes: Partial<ShareRow> = {};
+
+    if ("expiresInHours" in body) {
+      const expiresAt = parseExpiry(body.expiresInHours);
+      if (expiresAt === undefined) {
+        return c.json({ error: `expiresInHours must be between 0 and ${MAX_SHARE_HOURS}` }, 400);
+      }
+      changes.expires_at = expiresAt;
+    }
+
+    if ("accessCode" in body) {
+      if (body.accessCode === null) {
+        changes.access_code_hash = null;
+      } else {
+        const codeError = checkAccessCode(body.accessCode);
+        if (codeError) {
+          return c.json({ error: codeError }, 400);
+        }
+        changes.access_code_hash = await hashAccessCode(body.accessCode);
+      }
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { share, response: error } = await getOwnedShare(supabase, c, c.req.param("shortId"), user.id);
+    if (!share) return error;
+
+    if (share.revoked_at) {
+      return c.json({ error: "Link has been revoked" }, 409);
+    }
+
+    if ("publicationId" in body) {
+      if (!(await isPublicationOf(supabase, share.project_id, body.publicationId))) {
+        return c.json({ error: "Not a publication of this project" }, 400);
+      }
+      changes.publication_id = body.publicationId;
+    }
+
+    const { data, error: updateError } = await supabase
+      .from("project_shares")
+      .update(changes)
+      .eq("short_id", share.short_id)
+      .select(SHARE_COLUMNS)
+      .single();
+
+    if (updateError) {
+      return c.json({ error: updateError.message }, 500);
+    }
+
+    return c.json(toShareLink(data));
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Revoke a link; it stops working immediately
+app.delete("/make-server-5be515e6/share/:shortId", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const supabase = getSupabaseAdmin();
+    const { share, response: error } = await getOwnedShare(supabase, c, c.req.param("shortId"), user.id);
+    if (!share) return error;
+
+    if (share.revoked_at) return c.json(toShareLink(share));
+
+    const { data, error: updateError } = await supabase
+      .from("project_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("short_id", share.short_id)
+      .select(SHARE_COLUMNS)
+      .single();
+
+    if (updateError) {
+      return c.json({ error: updateError.message }, 500);
+    }
+
+    return c.json(toShareLink(data));
+  } catch (err) {
+    console.error(err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Replace a link with a new address: the old one is revoked, the new one
+// keeps its expiry, access code and publication
+app.post("/make-server-5be515e6/share/:shortId/rotate", async (c) => {
+  try {
+    const { user, response } = await requireUser(c);
+    if (!user) return response;
+
+    const limited = await rateLimiter.consume(c, "share", `user:${user.id}`, RATE_LIMITS.share);
+    if (limited) return limited;
+
+    const supabase = getSupabaseAdmin();
+    const { share, response: error } = await getOwnedShare(supabase, c, c.req.param("shortId"), user.id);
+    if (!share) return error;
+
+    if (shareStatus(share) !== "active") {
+      return c.json({ error: "Only an active link can be rotated" }, 409);
+    }
+
+    const { error: revokeError } = await supabase
+      .from("project_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("short_id", share.short_id);
+
+    if (revokeError) {
+      return c.json({ error: revokeError.message }, 500);
+    }
+
+    return c.json(toShareLink(
+      await insertShare(
+        supabase,
+        share.project_id,
+        share.expires_at,
+        share.access_code_hash,
+        share.publication_id,
+      ),
+    ));
   } catch (err) {
     console.error(err);
     return c.json({ error: "Internal server error" }, 500);
@@ -445,19 +1675,15 @@ app.get("/make-server-5be515e6/share/resolve", async (c) => {
     }
 
     const supabase = getSupabaseAdmin();
+    const share = await findActiveShare(supabase, shortId);
 
-    const { data, error } = await supabase
-      .from("project_shares")
-      .select("project_id")
-      .eq("short_id", shortId)
-      .single();
-
-    if (error || !data) {
+    if (!share) {
       return c.json({ error: "Link expired or invalid" }, 404);
     }
 
     return c.json({
-      projectId: data.project_id,
+      projectId: share.project_id,
+      protected: Boolean(share.access_code_hash),
     });
   } catch (err) {
     console.error(err);
@@ -474,29 +1700,44 @@ app.get("/make-server-5be515e6/public/project", async (c) => {
 
     const supabase = getSupabaseAdmin();
 
-    // 1️⃣ Resolve share
-    const { data: share, error: shareError } = await supabase
-      .from("project_shares")
-      .select("project_id")
-      .eq("short_id", shortId)
-      .single();
+    // 1️⃣ Resolve share (revoked and expired links don't open)
+    const share = await findActiveShare(supabase, shortId);
 
-    if (shareError || !share) {
+    if (!share) {
       return c.json({ error: "Link expired or invalid" }, 404);
     }
 
-    // 2️⃣ Load project
-    const { data: projectRow, error: projectError } = await supabase
-      .from("projects")
-      .select("data")
-      .eq("id", share.project_id)
-      .single();
+    // 🔒 Protected links need their code before anything else is handed out.
+    // The code travels in a header so it stays out of URLs and logs.
+    if (share.access_code_hash) {
+      const code = c.req.header("X-Access-Code");
+      if (!code) {
+        return c.json({ error: "Access code required", codeRequired: true }, 401);
+      }
+
+      // Only wrong codes count: per client, and per link so guesses spread over
+      // many addresses still run out. The per-link budget never keeps out a
+      // correct code.
+      const { passed, limited } = await rateLimiter.limitFailures(c, [
+        { name: "accessCode", key: `${await clientFingerprint(c)}:${share.short_id}`, rule: RATE_LIMITS.accessCode },
+        { name: "accessCodePerLink", key: `link:${share.short_id}`, rule: RATE_LIMITS.accessCodePerLink },
+      ], () => verifyAccessCode(code, share.access_code_hash));
+      if (limited) return limited;
+      if (!passed) {
+        return c.json({ error: "Incorrect access code", codeRequired: true }, 403);
+      }
+    }
 
-    if (projectError || !projectRow) {
-      return c.json({ error: "Project not found" }, 404);
+    // 2️⃣ Load what was published. The draft is never shown to visitors.
+    const publication = await findPublication(supabase, share.project_id, share.publication_id);
+    if (!publication) {
+      if (share.publication_id) {
+        return c.json({ error: "Published version not found" }, 404);
+      }
+      return c.json({ error: "Not published yet", notPublished: true }, 404);
     }
 
-    const p = { ...projectRow.data };
+    const p = upgradeStored({ id: share.project_id, data: publication.data });
 
     // 3️⃣ Hydrate signed URLs
     const sign = async (path?: string) => {
@@ -507,24 +1748,24 @@ app.get("/make-server-5be515e6/public/project", async (c) => {
       return data?.signedUrl ?? null;
     };
 
-    if (p.imagePath) p.imageUrl = await sign(p.imagePath);
     if (p.introAudioPath) p.introAudioUrl = await sign(p.introAudioPath);
 
-    p.hotspots = await Promise.all(
-      (p.hotspots || []).map(async (h: any) => {
-        if (h.audioPath) h.audioUrl = await sign(h.audioPath);
-        return h;
-      })
-    );
-
-    p.globalChannels = await Promise.all(
-      (p.globalChannels || []).map(async (c: any) => {
-        if (c.audioPath) c.audioUrl = await sign(c.audioPath);
-        return c;
-      })
-    );
-
-    return c.json({ project: p });
+    const project = await updateScenesAsync(p, async (scene) => ({
+      imageUrl: await sign(scene.imagePath),
+      hotspots: await Promise.all(
+        (scene.hotspots || []).map(async (h: any) => ({
+          ...h,
+          // Audio switched off by a moderator is never handed out
+          audioUrl: h.audioPath && !h.audioDisabled ? await sign(h.audioPath) : null,
+          transitionAudioUrl: await sign(h.transitionAudioPath),
+        }))
+      ),
+      globalChannels: await Promise.all(
+        (scene.globalChannels || []).map(async (c: any) => ({ ...c, audioUrl: await sign(c.audioPath) }))
+      ),
+    }));
+
+    return c.json({ project });
   } catch (err) {
     console.error(err);
     return c.json({ error: "Internal server error" }, 500);
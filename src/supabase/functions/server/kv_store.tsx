@@ -0,0 +1,37 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Key-value storage for small records (preferences, reports, rate-limit
+// counters) in a single table:
+//
+//   create table kv_store_5be515e6 (
+//     key text not null primary key,
+//     value jsonb not null
+//   );
+//
+// Every function throws when the database call fails.
+
+const TABLE = "kv_store_5be515e6";
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL") || "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+);
+
+export const set = async (key: string, value: unknown): Promise<void> => {
+  const { error } = await client().from(TABLE).upsert({ key, value });
+  if (error) throw new Error(error.message);
+};
+
+// The stored value, or undefined for a missing key
+export const get = async (key: string): Promise<any> => {
+  const { data, error } = await client().from(TABLE).select("value").eq("key", key).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.value;
+};
+
+// Values of every key starting with `prefix`
+export const getByPrefix = async (prefix: string): Promise<any[]> => {
+  const { data, error } = await client().from(TABLE).select("key, value").like("key", `${prefix}%`);
+  if (error) throw new Error(error.message);
+  return data?.map((row) => row.value) ?? [];
+};
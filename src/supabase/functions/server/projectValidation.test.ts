@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { migrateProject, validateProject } from "../_shared/projectSchema.ts";
+import { LIMITS, validateProjectForWrite } from "./projectValidation.ts";
+
+const context = { userId: "u1", projectId: "p1" };
+const folder = "u1/p1/";
+
+const zone = (fields: Record<string, unknown> = {}) => ({
+  id: "z1",
+  name: "Door",
+  color: "#f00",
+  points: [{ x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 }],
+  settings: { volume: 1, pan: 0, loop: false, fadeIn: 0.3, fadeOut: 0.3 },
+  ...fields,
+});
+
+const project = (fields: Record<string, unknown> = {}) => migrateProject({
+  schemaVersion: 3,
+  id: "p1",
+  title: "Map",
+  hotspots: [zone()],
+  globalChannels: [],
+  introAudioLoop: false,
+  createdAt: 0,
+  ...fields,
+});
+
+const issuePaths = (data: unknown) => validateProjectForWrite(data, context).issues.map((i) => i.path);
+
+describe("validateProjectForWrite", () => {
+  it("accepts a well-formed project and drops unknown fields", () => {
+    const { project: stored, issues } = validateProjectForWrite(project({
+      imagePath: `${folder}map.png`,
+      haptics: { enabled: true, enter: "tap", leave: "tick", edge: "buzz" },
+      speech: { voiceURI: null, lang: "hu-HU", rate: 1 },
+      secret: "x",
+    }), context);
+    expect(issues).toEqual([]);
+    expect(stored).not.toHaveProperty("secret");
+  });
+
+  it("refuses files outside the project's folder", () => {
+    expect(issuePaths(project({ imagePath: "u2/p1/map.png" }))).toEqual(["imagePath"]);
+    expect(issuePaths(project({ introAudioPath: `${folder}../x.mp3` }))).toEqual(["introAudioPath"]);
+  });
+
+  it("keeps zones on the image", () => {
+    const points = [{ x: 10, y: 10 }, { x: 120, y: 10 }, { x: 20, y: -5 }];
+    expect(issuePaths(project({ hotspots: [zone({ points })] }))).toEqual([
+      "hotspots[0].points[1].x",
+      "hotspots[0].points[2].y",
+    ]);
+  });
+
+  it("refuses haptic presets the player doesn't know", () => {
+    expect(issuePaths(project({
+      haptics: { enabled: true, enter: "earthquake" },
+      hotspots: [zone({ haptics: { enter: "tap", leave: "x".repeat(500) } })],
+    }))).toEqual(["haptics.enter", "hotspots[0].haptics.leave"]);
+  });
+
+  it("refuses speech settings that aren't a voice, a language tag and a rate", () => {
+    expect(issuePaths(project({
+      speech: { voiceURI: "v".repeat(LIMITS.voiceURILength + 1), lang: "<script>", rate: 9 },
+    }))).toEqual(["speech.rate", "speech.voiceURI", "speech.lang"]);
+  });
+});
+
+describe("validateProject", () => {
+  it("refuses vibration patterns and other non-text haptics", () => {
+    const data = project();
+    const paths = validateProject({
+      ...data,
+      haptics: { enter: [10000, 0, 10000] },
+      hotspots: [zone({ haptics: { leave: { pattern: [1] } } })],
+    }).map((i) => i.path);
+    expect(paths).toEqual(["hotspots[0].haptics.leave", "haptics.enter"]);
+  });
+
+  it("refuses non-text speech voices and languages", () => {
+    const paths = validateProject({ ...project(), speech: { voiceURI: 42, lang: ["hu"] } }).map((i) => i.path);
+    expect(paths).toEqual(["speech.voiceURI", "speech.lang"]);
+  });
+});
@@ -0,0 +1,218 @@
+import type { SchemaIssue } from "../_shared/projectSchema.ts";
+import { allHotspots, MAIN_SCENE_ID, MAX_SCENES } from "../_shared/scenes.ts";
+
+// Write-time checks for project documents.
+//
+// migrateProject() already guarantees the field types. On top of that the
+// server refuses documents that are unreasonably large, place zones off the
+// image, lead to scenes that don't exist, name haptic presets or speech
+// languages the player doesn't know, or point at storage objects outside the
+// project's own folder. Fields the schema doesn't know are dropped instead
+// of being stored.
+//
+// `audioDisabled` is set by moderators only (see the moderation routes): the
+// client's value is ignored and the stored flag kept for as long as the reported
+// file is still in place.
+
+export const LIMITS = {
+  hotspots: 200,          // Per scene
+  pointsPerHotspot: 500,
+  globalChannels: 20,     // Per scene
+  scenes: MAX_SCENES,     // Besides the first
+  titleLength: 200,
+  nameLength: 200,
+  textLength: 2000, // Spoken label and description
+  fadeSeconds: 30,
+  maxVoices: 8,
+  proximityRadius: 25,
+  voiceURILength: 200,
+  langLength: 35,
+};
+
+// Preset names from src/utils/haptics.ts; the player looks patterns up by name
+const HAPTIC_PRESETS = ["none", "tick", "tap", "doubleTap", "buzz", "heartbeat", "triple"];
+const HAPTIC_EVENTS = ["enter", "leave", "edge"];
+
+// BCP 47 language tag, e.g. "hu-HU"
+const LANGUAGE_TAG = /^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$/;
+
+const PROJECT_FIELDS = [
+  "schemaVersion", "id", "title", "imagePath", "hotspots", "globalChannels",
+  "introAudioPath", "introAudioLoop", "haptics", "speech", "spatialAudio",
+  "maxVoices", "createdAt", "sceneName",
+];
+const HOTSPOT_FIELDS = [
+  "id", "points", "audioPath", "name", "color", "settings", "haptics",
+  "spokenLabel", "description", "speechMode", "parentId", "overlapMode",
+  "targetSceneId", "transitionAudioPath",
+];
+const SCENE_FIELDS = ["id", "name", "imagePath"];
+const CHANNEL_FIELDS = ["id", "name", "audioPath", "settings"];
+const SETTINGS_FIELDS = ["volume", "pan", "loop", "fadeIn", "fadeOut", "proximityRadius", "proximityFalloff"];
+const HAPTICS_FIELDS = ["enabled", "enter", "leave", "edge"];
+const SPEECH_FIELDS = ["voiceURI", "lang", "rate"];
+
+const pick = (value: any, fields: string[]) => {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (value[field] !== undefined) picked[field] = value[field];
+  }
+  return picked;
+};
+
+export type WriteContext = {
+  userId: string;
+  projectId: string;
+  stored?: any; // The document being replaced, if any
+};
+
+// Returns the document as it should be stored, plus every problem found
+export function validateProjectForWrite(data: any, { userId, projectId, stored }: WriteContext) {
+  const issues: SchemaIssue[] = [];
+  const fail = (path: string, message: string) => issues.push({ path, message });
+
+  const checkRange = (path: string, value: unknown, min: number, max: number) => {
+    if (typeof value === "number" && (value < min || value > max)) {
+      fail(path, `Must be between ${min} and ${max}`);
+    }
+  };
+
+  const checkLength = (path: string, value: unknown, max: number) => {
+    if (typeof value === "string" && value.length > max) {
+      fail(path, `Must be at most ${max} characters`);
+    }
+  };
+
+  const checkPreset = (path: string, value: unknown) => {
+    if (value !== undefined && value !== null && !HAPTIC_PRESETS.includes(value as string)) {
+      fail(path, `Must be one of ${HAPTIC_PRESETS.join(", ")}`);
+    }
+  };
+
+  // 🔒 Files must live under `<userId>/<projectId>/`, like uploads do
+  const folder = `${userId}/${projectId}/`;
+  const checkPath = (path: string, value: unknown) => {
+    if (typeof value === "string" && (!value.startsWith(folder) || value.includes(".."))) {
+      fail(path, "Must be a file in this project's storage folder");
+    }
+  };
+
+  const cleanSettings = (path: string, settings: any) => {
+    checkRange(`${path}.volume`, settings.volume, 0, 1);
+    checkRange(`${path}.pan`, settings.pan, -1, 1);
+    checkRange(`${path}.fadeIn`, settings.fadeIn, 0, LIMITS.fadeSeconds);
+    checkRange(`${path}.fadeOut`, settings.fadeOut, 0, LIMITS.fadeSeconds);
+    checkRange(`${path}.proximityRadius`, settings.proximityRadius, 0, LIMITS.proximityRadius);
+    return pick(settings, SETTINGS_FIELDS);
+  };
+
+  checkLength("title", data.title, LIMITS.titleLength);
+  checkLength("sceneName", data.sceneName, LIMITS.nameLength);
+  checkPath("introAudioPath", data.introAudioPath);
+  checkRange("maxVoices", data.maxVoices, 1, LIMITS.maxVoices);
+  if (data.haptics) {
+    for (const event of HAPTIC_EVENTS) checkPreset(`haptics.${event}`, data.haptics[event]);
+  }
+  if (data.speech) {
+    checkRange("speech.rate", data.speech.rate, 0.5, 2);
+    checkLength("speech.voiceURI", data.speech.voiceURI, LIMITS.voiceURILength);
+    const { lang } = data.speech;
+    if (typeof lang === "string" && (lang.length > LIMITS.langLength || !LANGUAGE_TAG.test(lang))) {
+      fail("speech.lang", "Must be a language tag such as hu-HU");
+    }
+  }
+
+  const scenes: any[] = data.scenes ?? [];
+  if (scenes.length > LIMITS.scenes) {
+    fail("scenes", `At most ${LIMITS.scenes} scenes are allowed besides the first`);
+  }
+  const sceneIds = new Set([MAIN_SCENE_ID]);
+  scenes.slice(0, LIMITS.scenes).forEach((scene, i) => {
+    if (!scene.id || sceneIds.has(scene.id)) fail(`scenes[${i}].id`, "Must be unique");
+    sceneIds.add(scene.id);
+  });
+
+  // Zone ids are unique across scenes, so a reported zone is found wherever it is
+  const storedZones = new Map((stored ? allHotspots(stored) : []).map((h: any) => [h.id, h]));
+
+  // Image, zones and channels of one scene; `prefix` is "" for the first scene
+  const cleanScene = (prefix: string, sceneId: string, scene: any) => {
+    checkPath(`${prefix}imagePath`, scene.imagePath);
+
+    if (scene.hotspots.length > LIMITS.hotspots) {
+      fail(`${prefix}hotspots`, `At most ${LIMITS.hotspots} zones are allowed`);
+    }
+    const zoneIds = new Set(scene.hotspots.map((h: any) => h.id));
+
+    const hotspots = scene.hotspots.slice(0, LIMITS.hotspots).map((h: any, i: number) => {
+      const path = `${prefix}hotspots[${i}]`;
+      checkLength(`${path}.name`, h.name, LIMITS.nameLength);
+      checkLength(`${path}.spokenLabel`, h.spokenLabel, LIMITS.textLength);
+      checkLength(`${path}.description`, h.description, LIMITS.textLength);
+      checkPath(`${path}.audioPath`, h.audioPath);
+      checkPath(`${path}.transitionAudioPath`, h.transitionAudioPath);
+      if (h.haptics) {
+        checkPreset(`${path}.haptics.enter`, h.haptics.enter);
+        checkPreset(`${path}.haptics.leave`, h.haptics.leave);
+      }
+
+      if (h.targetSceneId && (h.targetSceneId === sceneId || !sceneIds.has(h.targetSceneId))) {
+        fail(`${path}.targetSceneId`, "Must be another scene in this project");
+      }
+
+      if (h.points.length < 3) {
+        fail(`${path}.points`, "A zone needs at least 3 points");
+      } else if (h.points.length > LIMITS.pointsPerHotspot) {
+        fail(`${path}.points`, `A zone may have at most ${LIMITS.pointsPerHotspot} points`);
+      }
+      const points = h.points.slice(0, LIMITS.pointsPerHotspot).map((p: any, j: number) => {
+        checkRange(`${path}.points[${j}].x`, p.x, 0, 100);
+        checkRange(`${path}.points[${j}].y`, p.y, 0, 100);
+        return { x: p.x, y: p.y };
+      });
+
+      if (h.parentId && (h.parentId === h.id || !zoneIds.has(h.parentId))) {
+        fail(`${path}.parentId`, "Must be another zone in this scene");
+      }
+
+      const reported: any = storedZones.get(h.id);
+      const audioDisabled = Boolean(reported?.audioDisabled && reported.audioPath === h.audioPath);
+
+      return {
+        ...pick(h, HOTSPOT_FIELDS),
+        points,
+        settings: cleanSettings(`${path}.settings`, h.settings),
+        ...(h.haptics ? { haptics: pick(h.haptics, ["enter", "leave"]) } : {}),
+        ...(audioDisabled ? { audioDisabled } : {}),
+      };
+    });
+
+    if (scene.globalChannels.length > LIMITS.globalChannels) {
+      fail(`${prefix}globalChannels`, `At most ${LIMITS.globalChannels} background channels are allowed`);
+    }
+    const globalChannels = scene.globalChannels.slice(0, LIMITS.globalChannels).map((ch: any, i: number) => {
+      const path = `${prefix}globalChannels[${i}]`;
+      checkLength(`${path}.name`, ch.name, LIMITS.nameLength);
+      checkPath(`${path}.audioPath`, ch.audioPath);
+      return { ...pick(ch, CHANNEL_FIELDS), settings: cleanSettings(`${path}.settings`, ch.settings) };
+    });
+
+    return { hotspots, globalChannels };
+  };
+
+  const project = {
+    ...pick(data, PROJECT_FIELDS),
+    id: projectId,
+    ...cleanScene("", MAIN_SCENE_ID, data),
+    ...(data.scenes ? {
+      scenes: scenes.slice(0, LIMITS.scenes).map((scene, i) => {
+        checkLength(`scenes[${i}].name`, scene.name, LIMITS.nameLength);
+        return { ...pick(scene, SCENE_FIELDS), ...cleanScene(`scenes[${i}].`, scene.id, scene) };
+      }),
+    } : {}),
+    ...(data.haptics ? { haptics: pick(data.haptics, HAPTICS_FIELDS) } : {}),
+    ...(data.speech ? { speech: pick(data.speech, SPEECH_FIELDS) } : {}),
+  };
+
+  return { project, issues };
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clientIp, createKvStore, createMemoryStore, createRateLimiter, type RateLimitStore } from "./rateLimit.ts";
+
+const RULE = { limit: 3, windowMs: 60_000 };
+
+// Just enough of a Hono context for the limiter
+const fakeContext = (headers: Record<string, string> = {}) => {
+  const sent: Record<string, string> = {};
+  return {
+    req: { header: (name: string) => headers[name.toLowerCase()] },
+    header: (name: string, value: string) => { sent[name] = value; },
+    json: (body: unknown, status = 200) => ({ body, status }),
+    sent,
+  } as any;
+};
+
+const brokenStore: RateLimitStore = {
+  hit: () => Promise.reject(new Error("store down")),
+  peek: () => Promise.reject(new Error("store down")),
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("createMemoryStore", () => {
+  it("counts hits within a window and starts over once it ends", async () => {
+    const store = createMemoryStore();
+    expect(await store.hit("a", 1000, 0)).toEqual({ count: 1, resetAt: 1000 });
+    expect(await store.hit("a", 1000, 999)).toEqual({ count: 2, resetAt: 1000 });
+    expect(await store.hit("a", 1000, 1000)).toEqual({ count: 1, resetAt: 2000 });
+  });
+
+  it("keeps keys apart", async () => {
+    const store = createMemoryStore();
+    await store.hit("a", 1000, 0);
+    expect((await store.hit("b", 1000, 0)).count).toBe(1);
+  });
+
+  it("peeks at a window without counting", async () => {
+    const store = createMemoryStore();
+    expect(await store.peek("a", 0)).toBeNull();
+    await store.hit("a", 1000, 0);
+    expect(await store.peek("a", 500)).toEqual({ count: 1, resetAt: 1000 });
+    expect(await store.peek("a", 1000)).toBeNull();
+  });
+});
+
+describe("createKvStore", () => {
+  it("counts through the key-value store and rolls over after the window", async () => {
+    const data = new Map<string, unknown>();
+    const store = createKvStore({
+      get: async (key) => data.get(key),
+      set: async (key, value) => { data.set(key, value); },
+    });
+    await store.hit("a", 1000, 0);
+    expect(await store.hit("a", 1000, 500)).toEqual({ count: 2, resetAt: 1000 });
+    expect(data.has("ratelimit_a")).toBe(true);
+    expect(await store.hit("a", 1000, 1500)).toEqual({ count: 1, resetAt: 2500 });
+    expect(await store.peek("a", 1600)).toEqual({ count: 1, resetAt: 2500 });
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("answers 429 with Retry-After once the budget is used up", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    for (let i = 0; i < RULE.limit; i++) {
+      expect(await limiter.consume(fakeContext(), "report", "user:1", RULE)).toBeNull();
+    }
+
+    vi.setSystemTime(15_000);
+    const c = fakeContext();
+    const limited = await limiter.consume(c, "report", "user:1", RULE);
+    expect(limited.status).toBe(429);
+    expect(limited.body.retryAfter).toBe(45);
+    expect(c.sent["Retry-After"]).toBe("45");
+  });
+
+  it("gives each route and key its own budget", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    for (let i = 0; i < RULE.limit; i++) await limiter.consume(fakeContext(), "report", "user:1", RULE);
+    expect(await limiter.consume(fakeContext(), "report", "user:2", RULE)).toBeNull();
+    expect(await limiter.consume(fakeContext(), "share", "user:1", RULE)).toBeNull();
+  });
+
+  it("allows requests again in the next window", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    for (let i = 0; i <= RULE.limit; i++) await limiter.consume(fakeContext(), "report", "user:1", RULE);
+
+    vi.setSystemTime(RULE.windowMs);
+    expect(await limiter.consume(fakeContext(), "report", "user:1", RULE)).toBeNull();
+  });
+
+  it("lets signed-in requests through when the store fails, and logs it", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const limiter = createRateLimiter(brokenStore);
+    expect(await limiter.consume(fakeContext(), "upload", "user:1", RULE)).toBeNull();
+    expect(log).toHaveBeenCalled();
+  });
+
+  it("refuses fail-closed requests when the store fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const limiter = createRateLimiter(brokenStore);
+    expect((await limiter.consume(fakeContext(), "accessCode", "link:abc", RULE, true)).status).toBe(503);
+  });
+
+  it("fails closed in the per-client middleware", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const next = vi.fn();
+    const response = await createRateLimiter(brokenStore).perClient("signup", RULE)(fakeContext(), next);
+    expect((response as any).status).toBe(503);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("counts a client rotating its own X-Forwarded-For entries as one client", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    const middleware = limiter.perClient("signup", RULE);
+    const next = vi.fn();
+    let response;
+    for (let i = 0; i <= RULE.limit; i++) {
+      response = await middleware(fakeContext({ "x-forwarded-for": `10.0.0.${i}, 203.0.113.7` }), next);
+    }
+    expect(next).toHaveBeenCalledTimes(RULE.limit);
+    expect((response as any).status).toBe(429);
+  });
+});
+
+describe("limitFailures", () => {
+  const budgets = (client: string) => [
+    { name: "code", key: `${client}:link`, rule: RULE },
+    { name: "codePerLink", key: "link", rule: { limit: 5, windowMs: 60_000 } },
+  ];
+  const attempt = (limiter: ReturnType<typeof createRateLimiter>, client: string, correct: boolean) => {
+    return limiter.limitFailures(fakeContext(), budgets(client), async () => correct);
+  };
+
+  it("never counts a correct code", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    for (let i = 0; i < 20; i++) {
+      expect(await attempt(limiter, "a", true)).toEqual({ passed: true, limited: null });
+    }
+    expect(await attempt(limiter, "a", false)).toEqual({ passed: false, limited: null });
+  });
+
+  it("turns a client away once it used up its wrong guesses, without checking the code", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    for (let i = 0; i < RULE.limit; i++) {
+      expect((await attempt(limiter, "a", false)).limited).toBeNull();
+    }
+    const verify = vi.fn(async () => true);
+    const { passed, limited } = await limiter.limitFailures(fakeContext(), budgets("a"), verify);
+    expect(passed).toBe(false);
+    expect(limited.status).toBe(429);
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("lets a correct code through once wrong guesses used up the link's budget", async () => {
+    const limiter = createRateLimiter(createMemoryStore());
+    for (const client of ["a", "b", "c"]) {
+      for (let i = 0; i < 2; i++) await attempt(limiter, client, false);
+    }
+    expect((await attempt(limiter, "d", false)).limited.status).toBe(429);
+    expect(await attempt(limiter, "d", true)).toEqual({ passed: true, limited: null });
+  });
+
+  it("fails closed when the store fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { limited } = await attempt(createRateLimiter(brokenStore), "a", true);
+    expect(limited.status).toBe(503);
+  });
+});
+
+describe("clientIp", () => {
+  it("takes the address the proxy appended", () => {
+    expect(clientIp(fakeContext({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" }))).toBe("203.0.113.7");
+    expect(clientIp(fakeContext({ "x-real-ip": "203.0.113.8" }))).toBe("203.0.113.8");
+  });
+});
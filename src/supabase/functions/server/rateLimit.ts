@@ -0,0 +1,171 @@
+import type { Context, MiddlewareHandler } from "npm:hono";
+
+// Request throttling.
+//
+// Fixed-window counters: a key may make `limit` requests per `windowMs`, after
+// which it gets 429 until the window ends. Counters live in a RateLimitStore:
+// the memory store only sees its own isolate (enough for tests and local runs),
+// the KV store is shared by every running instance of the function.
+
+export type RateLimitRule = {
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitStore = {
+  // Counts one request for `key` and returns the total of its current window
+  hit(key: string, windowMs: number, now: number): Promise<{ count: number; resetAt: number }>;
+  // The same without counting; null when `key` has no current window
+  peek(key: string, now: number): Promise<{ count: number; resetAt: number } | null>;
+};
+
+// One budget to count an attempt against
+export type RateLimitBudget = {
+  name: string;
+  key: string;
+  rule: RateLimitRule;
+};
+
+// Finished windows are swept once the map grows past this
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key, windowMs, now) {
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        if (windows.size >= MEMORY_STORE_SWEEP_SIZE) {
+          for (const [k, w] of windows) {
+            if (w.resetAt <= now) windows.delete(k);
+          }
+        }
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+      entry.count++;
+      return { ...entry };
+    },
+
+    async peek(key, now) {
+      const entry = windows.get(key);
+      return entry && entry.resetAt > now ? { ...entry } : null;
+    },
+  };
+}
+
+type KeyValueStore = {
+  get(key: string): Promise<any>;
+  set(key: string, value: unknown): Promise<void>;
+};
+
+// Read-then-write, so two racing requests may be counted as one. That is close
+// enough for abuse protection.
+export function createKvStore(kv: KeyValueStore, prefix = "ratelimit_"): RateLimitStore {
+  return {
+    async hit(key, windowMs, now) {
+      const stored = await kv.get(prefix + key);
+      const entry = stored && stored.resetAt > now
+        ? { count: stored.count + 1, resetAt: stored.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+      await kv.set(prefix + key, entry);
+      return entry;
+    },
+
+    async peek(key, now) {
+      const stored = await kv.get(prefix + key);
+      return stored && stored.resetAt > now ? { count: stored.count, resetAt: stored.resetAt } : null;
+    },
+  };
+}
+
+// The caller's address as reported by the platform's proxy. Callers can send
+// their own X-Forwarded-For; the proxy appends the address it saw, so only the
+// last entry can be trusted.
+export function clientIp(c: Context) {
+  const forwarded = c.req.header("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded || c.req.header("x-real-ip") || "unknown";
+}
+
+// A stable id for the caller that doesn't store their address
+export async function clientFingerprint(c: Context) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(clientIp(c)));
+  return Array.from(new Uint8Array(digest).slice(0, 12))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function createRateLimiter(store: RateLimitStore) {
+  const tooMany = (c: Context, resetAt: number, now: number) => {
+    const retryAfter = Math.max(1, Math.ceil((resetAt - now) / 1000));
+    c.header("Retry-After", String(retryAfter));
+    return c.json({ error: "Too many requests. Please try again later.", retryAfter }, 429);
+  };
+
+  const storeFailed = (c: Context, name: string, err: unknown, failClosed: boolean) => {
+    console.error(`Rate limit store error (${name}):`, err);
+    if (!failClosed) return null;
+    return c.json({ error: "Service temporarily unavailable. Please try again later." }, 503);
+  };
+
+  // Counts a request against `name` for `key`. Returns the 429 response to send
+  // when the budget is used up, otherwise null. When the store fails, signed-in
+  // routes carry on; `failClosed` routes (anonymous ones, code checks) get 503.
+  const consume = async (c: Context, name: string, key: string, rule: RateLimitRule, failClosed = false) => {
+    const now = Date.now();
+    let result;
+    try {
+      result = await store.hit(`${name}:${key}`, rule.windowMs, now);
+    } catch (err) {
+      return storeFailed(c, name, err, failClosed);
+    }
+
+    return result.count <= rule.limit ? null : tooMany(c, result.resetAt, now);
+  };
+
+  // Like consume, but without counting this request: the 429 response when the
+  // budget is already used up, otherwise null
+  const check = async (c: Context, name: string, key: string, rule: RateLimitRule, failClosed = false) => {
+    const now = Date.now();
+    let result;
+    try {
+      result = await store.peek(`${name}:${key}`, now);
+    } catch (err) {
+      return storeFailed(c, name, err, failClosed);
+    }
+
+    return !result || result.count < rule.limit ? null : tooMany(c, result.resetAt, now);
+  };
+
+  // For guessable secrets such as access codes: runs `verify` and counts only
+  // failed attempts, against every budget. A caller that used up the first
+  // budget (its own) is turned away before `verify` runs. The others are
+  // shared with other callers, so they only turn further failures into 429s
+  // and never keep out someone who knows the secret. Fails closed.
+  const limitFailures = async (c: Context, [own, ...shared]: RateLimitBudget[], verify: () => Promise<boolean>) => {
+    const blocked = await check(c, own.name, own.key, own.rule, true);
+    if (blocked) return { passed: false, limited: blocked };
+
+    if (await verify()) return { passed: true, limited: null };
+
+    let limited = null;
+    for (const { name, key, rule } of [own, ...shared]) {
+      limited = (await consume(c, name, key, rule, true)) ?? limited;
+    }
+    return { passed: false, limited };
+  };
+
+  // Route middleware with a budget per client address, for routes that may be
+  // called without signing in. Signed-in routes call `consume` with the user id
+  // once requireUser has verified it.
+  const perClient = (name: string, rule: RateLimitRule): MiddlewareHandler => {
+    return async (c, next) => {
+      const limited = await consume(c, name, `ip:${await clientFingerprint(c)}`, rule, true);
+      if (limited) return limited;
+      await next();
+    };
+  };
+
+  return { consume, check, limitFailures, perClient };
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+// Storage garbage collection.
+//
+// Every upload creates a new object under `<userId>/<projectId>/` and replaced or
+// deleted files are never removed. This compares the bucket against the paths
+// the saved projects, their publications and the templates still reference and
+// deletes what nothing points to.
+
+// New uploads are only referenced once the next auto-save lands, so recent
+// objects are left alone for a while.
+export const DEFAULT_GRACE_HOURS = 24;
+
+const PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+export type StorageObject = {
+  path: string;
+  size: number | null;
+  updatedAt: string | null;
+};
+
+export type GcOptions = {
+  dryRun: boolean;
+  graceHours?: number;
+  userId?: string; // Limit the run to one user's folder
+  now?: Date;
+};
+
+export type GcReport = {
+  dryRun: boolean;
+  graceHours: number;
+  scanned: number;
+  referenced: number;
+  orphaned: StorageObject[];   // Unreferenced and past the grace period
+  skippedRecent: number;       // Unreferenced but still within the grace period
+  deleted: string[];
+  errors: string[];
+};
+
+// Every string stored under a key ending in "Path" anywhere in the project data
+// (imagePath, introAudioPath, hotspot and channel audioPath, ...). Walking the
+// whole document keeps this correct as new kinds of assets are added.
+export function collectReferencedPaths(data: unknown, into = new Set<string>()) {
+  if (Array.isArray(data)) {
+    data.forEach((item) => collectReferencedPaths(item, into));
+  } else if (data && typeof data === "object") {
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value === "string" && key.endsWith("Path") && value) {
+        into.add(value);
+      } else if (value && typeof value === "object") {
+        collectReferencedPaths(value, into);
+      }
+    }
+  }
+  return into;
+}
+
+// Lists every object below `prefix`, descending into folders
+export async function listAllObjects(
+  supabase: SupabaseClient,
+  bucket: string,
+  prefix = "",
+): Promise<StorageObject[]> {
+  const objects: StorageObject[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: PAGE_SIZE, offset });
+    if (error) throw error;
+
+    for (const entry of data || []) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      // Folders come back without an id
+      if (entry.id === null) {
+        objects.push(...(await listAllObjects(supabase, bucket, path)));
+      } else {
+        objects.push({
+          path,
+          size: entry.metadata?.size ?? null,
+          updatedAt: entry.updated_at ?? entry.created_at ?? null,
+        });
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return objects;
+}
+
+export async function runStorageGc(
+  supabase: SupabaseClient,
+  bucket: string,
+  options: GcOptions,
+): Promise<GcReport> {
+  const graceHours = options.graceHours ?? DEFAULT_GRACE_HOURS;
+  const cutoff = (options.now ?? new Date()).getTime() - graceHours * 60 * 60 * 1000;
+
+  const referenced = new Set<string>();
+  for (const table of ["projects", "project_publications", "project_templates"]) {
+    let query = supabase.from(table).select("data");
+    if (options.userId) query = query.eq("user_id", options.userId);
+    const { data: rows, error } = await query;
+    if (error) throw error;
+
+    (rows || []).forEach((row) => collectReferencedPaths(row.data, referenced));
+  }
+
+  const objects = await listAllObjects(supabase, bucket, options.userId ?? "");
+
+  const report: GcReport = {
+    dryRun: options.dryRun,
+    graceHours,
+    scanned: objects.length,
+    referenced: 0,
+    orphaned: [],
+    skippedRecent: 0,
+    deleted: [],
+    errors: [],
+  };
+
+  for (const object of objects) {
+    if (referenced.has(object.path)) {
+      report.referenced++;
+    } else if (object.updatedAt && new Date(object.updatedAt).getTime() > cutoff) {
+      report.skippedRecent++;
+    } else {
+      report.orphaned.push(object);
+    }
+  }
+
+  if (options.dryRun) return report;
+
+  for (let i = 0; i < report.orphaned.length; i += REMOVE_BATCH_SIZE) {
+    const batch = report.orphaned.slice(i, i + REMOVE_BATCH_SIZE).map((o) => o.path);
+    const { error: removeError } = await supabase.storage.from(bucket).remove(batch);
+    if (removeError) {
+      report.errors.push(removeError.message);
+    } else {
+      report.deleted.push(...batch);
+    }
+  }
+
+  return report;
+}
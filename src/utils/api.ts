@@ -1,4 +1,6 @@
 import { projectId, publicAnonKey } from './supabase/info';
+import { ProjectSchemaError } from '../supabase/functions/_shared/projectSchema';
+import { updateScenes, updateScenesAsync } from '../supabase/functions/_shared/scenes';
 
 const BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-5be515e6`;
 
@@ -45,6 +47,34 @@ export const getSignedUrl = async (token: string, path: string) => {
     return res.json();
 };
 
+// Copies every uploaded file of a project into the folder of `targetId` and
+// returns the project with its paths pointing at the copies
+export const copyProjectFiles = async (token: string, project: any, targetId: string) => {
+    const copyFile = async (path?: string | null) => {
+        if (!path) return path;
+        const parts = path.split('/');
+        parts[1] = targetId; // <userId>/<projectId>/<file>
+        const res = await fetch(`${BASE_URL}/storage/copy`, {
+            method: 'POST',
+            headers: getHeaders(token),
+            body: JSON.stringify({ from: path, to: parts.join('/') })
+        });
+        if (!res.ok) throw new Error(`Failed to copy file: ${path}`);
+        return (await res.json()).path as string;
+    };
+
+    const copy = await updateScenesAsync(project, async (scene) => ({
+        imagePath: await copyFile(scene.imagePath),
+        hotspots: await Promise.all(scene.hotspots.map(async (h: any) => ({
+            ...h,
+            audioPath: await copyFile(h.audioPath),
+            transitionAudioPath: await copyFile(h.transitionAudioPath)
+        }))),
+        globalChannels: await Promise.all(scene.globalChannels.map(async (c: any) => ({ ...c, audioPath: await copyFile(c.audioPath) })))
+    }));
+    return { ...copy, introAudioPath: await copyFile(project.introAudioPath) };
+};
+
 export const uploadFile = async (token: string, file: File, path: string) => {
     try {
         // 1. Get Upload URL (server returns sanitized path)
@@ -74,36 +104,97 @@ export const uploadFile = async (token: string, file: File, path: string) => {
     }
 };
 
-export const saveProjects = async (token: string, projects: any[]) => {
-    // We strip out the actual File objects and blob URLs before saving
-    // to avoid circular references or trying to save massive data blobs
-    const sanitizedProjects = projects.map(p => ({
-        ...p,
-        imageFile: null, // Don't save file object
-        imageUrl: null, // Don't save blob URL (we rely on stored path)
-        introAudioFile: null,
-        introAudioUrl: null,
-        hotspots: p.hotspots.map((h: any) => ({
-            ...h,
-            audioFile: null,
-            audioUrl: null
-        })),
-        globalChannels: (p.globalChannels || []).map((c: any) => ({
-            ...c,
-            audioFile: null,
-            audioUrl: null
-        }))
-    }));
+// We strip out the actual File objects and blob URLs before saving
+// to avoid circular references or trying to save massive data blobs
+const sanitizeProject = (p: any) => updateScenes({
+    ...p,
+    introAudioFile: null,
+    introAudioUrl: null
+}, (scene) => ({
+    imageFile: null, // Don't save file object
+    imageUrl: null, // Don't save blob URL (we rely on stored path)
+    hotspots: scene.hotspots.map((h: any) => ({
+        ...h,
+        audioFile: null,
+        audioUrl: null,
+        transitionAudioFile: null,
+        transitionAudioUrl: null
+    })),
+    globalChannels: scene.globalChannels.map((c: any) => ({
+        ...c,
+        audioFile: null,
+        audioUrl: null
+    }))
+}));
 
-    const res = await fetch(`${BASE_URL}/projects`, {
-        method: 'POST',
+// Thrown when the server has a newer version of the project than the one the
+// save was based on (saved from another tab or device in the meantime)
+export class ProjectConflictError extends Error {
+    serverProject: any;
+
+    constructor(serverProject: any) {
+        super("Project was changed elsewhere");
+        this.name = 'ProjectConflictError';
+        this.serverProject = serverProject;
+    }
+}
+
+type SaveOptions = { force?: boolean }; // force = overwrite even if the server copy is newer
+
+const sendProjectWrite = async (method: 'PUT' | 'PATCH', token: string, id: string, body: object, failure: string) => {
+    const res = await fetch(`${BASE_URL}/projects/${encodeURIComponent(id)}`, {
+        method,
         headers: getHeaders(token),
-        body: JSON.stringify({ projects: sanitizedProjects })
+        body: JSON.stringify(body)
     });
-    if (!res.ok) throw new Error("Failed to save projects");
+    if (res.status === 409) {
+        const { project } = await res.json();
+        throw new ProjectConflictError(project);
+    }
+    if (res.status === 400) {
+        // Rejected by validation: one issue per offending field
+        const { error, issues } = await res.json();
+        throw issues?.length ? new ProjectSchemaError(issues) : new Error(error || failure);
+    }
+    if (!res.ok) throw new Error(failure);
+    // { success, version, updatedAt }
     return res.json();
 };
 
+// Creates or replaces a whole project
+export const saveProject = async (token: string, project: any, options: SaveOptions = {}) => {
+    return sendProjectWrite('PUT', token, project.id, {
+        project: sanitizeProject(project),
+        baseVersion: project.version ?? 0,
+        force: options.force ?? false
+    }, "Failed to save project");
+};
+
+// Sends only the given top-level fields of an already saved project, plus the
+// schema version they follow (the server refuses older ones)
+export const patchProject = async (token: string, project: any, fields: string[], options: SaveOptions = {}) => {
+    const sanitized = sanitizeProject(project);
+    const changes = {
+        ...Object.fromEntries(fields.map(field => [field, sanitized[field] ?? null])),
+        schemaVersion: sanitized.schemaVersion
+    };
+    return sendProjectWrite('PATCH', token, project.id, {
+        changes,
+        baseVersion: project.version ?? 0,
+        force: options.force ?? false
+    }, "Failed to update project");
+};
+
+export const deleteProject = async (token: string, id: string) => {
+    const res = await fetch(`${BASE_URL}/projects/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getHeaders(token)
+    });
+    // Already gone on the server is as good as deleted
+    if (!res.ok && res.status !== 404) throw new Error("Failed to delete project");
+    return res.status === 404 ? { success: true } : res.json();
+};
+
 export const loadProjects = async (token: string) => {
     const res = await fetch(`${BASE_URL}/projects`, {
         headers: getHeaders(token)
@@ -113,27 +204,266 @@ export const loadProjects = async (token: string) => {
     return projects;
 };
 
-export const getSharedProject = async (shortId: string) => {
-    const res = await fetch(`${BASE_URL}/public/project?id=${shortId}`, {
+export const loadProject = async (token: string, id: string) => {
+    const res = await fetch(`${BASE_URL}/projects/${encodeURIComponent(id)}`, {
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to load project");
+    const { project } = await res.json();
+    return project;
+};
+
+// Thrown when a shared map needs an access code that was missing or wrong
+export class AccessCodeError extends Error {
+    reason: 'required' | 'incorrect' | 'too-many-attempts';
+
+    constructor(reason: AccessCodeError['reason'], message: string) {
+        super(message);
+        this.name = 'AccessCodeError';
+        this.reason = reason;
+    }
+}
+
+// Thrown when a shared map's project hasn't been published yet
+export class NotPublishedError extends Error {
+    constructor() {
+        super("This map hasn't been published yet");
+        this.name = 'NotPublishedError';
+    }
+}
+
+export const getSharedProject = async (shortId: string, accessCode?: string) => {
+    const res = await fetch(`${BASE_URL}/public/project?id=${encodeURIComponent(shortId)}`, {
         headers: {
-             'Authorization': `Bearer ${publicAnonKey}`
+             'Authorization': `Bearer ${publicAnonKey}`,
+             ...(accessCode ? { 'X-Access-Code': accessCode } : {})
         }
     });
+    if (res.status === 401) throw new AccessCodeError('required', "Access code required");
+    if (res.status === 403) throw new AccessCodeError('incorrect', "Incorrect access code");
+    if (res.status === 429 && accessCode) {
+        const retryAfter = Number(res.headers.get('Retry-After')) || 60;
+        throw new AccessCodeError('too-many-attempts', `Too many attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`);
+    }
+    if (res.status === 404 && (await res.clone().json().catch(() => null))?.notPublished) {
+        throw new NotPublishedError();
+    }
     if (!res.ok) throw new Error("Failed to load shared project");
     const { project } = await res.json();
     return project;
 };
 
-export const createShareLink = async (token: string, projectId: string) => {
+export type ShareLink = {
+    shortId: string;
+    projectId: string;
+    createdAt: string;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    status: 'active' | 'expired' | 'revoked';
+    protected: boolean; // Needs an access code to open
+    publicationId: string | null; // null = always the newest publication
+};
+
+// Returns the project's active link, or a new one when there is none.
+// `reuse: false`, an expiry, an access code or a publication always makes a new link.
+export const createShareLink = async (
+    token: string,
+    projectId: string,
+    options: { expiresInHours?: number | null; accessCode?: string; publicationId?: string | null; reuse?: boolean } = {}
+): Promise<ShareLink> => {
     const res = await fetch(`${BASE_URL}/share`, {
         method: 'POST',
         headers: getHeaders(token),
-        body: JSON.stringify({ projectId })
+        body: JSON.stringify({ projectId, ...options })
     });
     if (!res.ok) throw new Error("Failed to create share link");
     return res.json();
 };
 
+export const listShareLinks = async (token: string, projectId: string): Promise<ShareLink[]> => {
+    const res = await fetch(`${BASE_URL}/projects/${encodeURIComponent(projectId)}/shares`, {
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to load share links");
+    const { shares } = await res.json();
+    return shares;
+};
+
+// Only the given fields change; `null` removes the time limit or the access code,
+// or makes the link follow the newest publication
+export const updateShareLink = async (
+    token: string,
+    shortId: string,
+    changes: { expiresInHours?: number | null; accessCode?: string | null; publicationId?: string | null }
+): Promise<ShareLink> => {
+    const res = await fetch(`${BASE_URL}/share/${encodeURIComponent(shortId)}`, {
+        method: 'PATCH',
+        headers: getHeaders(token),
+        body: JSON.stringify(changes)
+    });
+    if (!res.ok) {
+        const { error } = await res.json().catch(() => ({}));
+        throw new Error(error || "Failed to update share link");
+    }
+    return res.json();
+};
+
+export const revokeShareLink = async (token: string, shortId: string): Promise<ShareLink> => {
+    const res = await fetch(`${BASE_URL}/share/${encodeURIComponent(shortId)}`, {
+        method: 'DELETE',
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to revoke share link");
+    return res.json();
+};
+
+// Revokes the link and returns its replacement
+export const rotateShareLink = async (token: string, shortId: string): Promise<ShareLink> => {
+    const res = await fetch(`${BASE_URL}/share/${encodeURIComponent(shortId)}/rotate`, {
+        method: 'POST',
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to rotate share link");
+    return res.json();
+};
+
+// ---------------------------------------------------------------------------
+// PUBLISHING
+// ---------------------------------------------------------------------------
+
+// A frozen copy of a project as visitors of its share links see it
+export type Publication = {
+    id: string;
+    number: number;       // 1, 2, ... per project
+    draftVersion: number; // Project `version` it was published from
+    createdAt: string;
+};
+
+// Publishes the saved draft. `baseVersion` is the version the editor shows; if
+// the server has another one a ProjectConflictError is thrown instead.
+export const publishProject = async (token: string, projectId: string, baseVersion?: number): Promise<Publication> => {
+    const res = await fetch(`${BASE_URL}/projects/${encodeURIComponent(projectId)}/publish`, {
+        method: 'POST',
+        headers: getHeaders(token),
+        body: JSON.stringify({ baseVersion })
+    });
+    if (res.status === 409) {
+        const { project, error } = await res.json();
+        throw project ? new ProjectConflictError(project) : new Error(error);
+    }
+    if (res.status === 400) {
+        const { error, issues } = await res.json();
+        throw issues?.length ? new ProjectSchemaError(issues) : new Error(error || "Failed to publish project");
+    }
+    if (!res.ok) throw new Error("Failed to publish project");
+    return res.json();
+};
+
+export const listPublications = async (token: string, projectId: string): Promise<Publication[]> => {
+    const res = await fetch(`${BASE_URL}/projects/${encodeURIComponent(projectId)}/publications`, {
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to load publications");
+    const { publications } = await res.json();
+    return publications;
+};
+
+// ---------------------------------------------------------------------------
+// TEMPLATES
+// ---------------------------------------------------------------------------
+
+// A project saved as a starting point, with its own copies of the files
+export type ProjectTemplate = {
+    id: string;
+    name: string;
+    project: any;
+    createdAt: string;
+};
+
+export const listTemplates = async (token: string): Promise<ProjectTemplate[]> => {
+    const res = await fetch(`${BASE_URL}/templates`, {
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to load templates");
+    const { templates } = await res.json();
+    return templates;
+};
+
+// Copies the project's files into the template's own folder, then saves it
+export const saveTemplate = async (token: string, project: any, name: string): Promise<ProjectTemplate> => {
+    const id = crypto.randomUUID();
+    const copy = await copyProjectFiles(token, project, id);
+    const res = await fetch(`${BASE_URL}/templates`, {
+        method: 'POST',
+        headers: getHeaders(token),
+        body: JSON.stringify({ id, name, project: sanitizeProject({ ...copy, id }) })
+    });
+    if (res.status === 400) {
+        const { error, issues } = await res.json();
+        throw issues?.length ? new ProjectSchemaError(issues) : new Error(error || "Failed to save template");
+    }
+    if (!res.ok) throw new Error("Failed to save template");
+    return res.json();
+};
+
+export const deleteTemplate = async (token: string, id: string) => {
+    const res = await fetch(`${BASE_URL}/templates/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getHeaders(token)
+    });
+    if (!res.ok && res.status !== 404) throw new Error("Failed to delete template");
+};
+
+// ---------------------------------------------------------------------------
+// MODERATION (admin only)
+// ---------------------------------------------------------------------------
+
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned';
+
+export type AudioReport = {
+    id: string;
+    projectId: string;
+    hotspotId: string;
+    reason: string;
+    timestamp: string;
+    status: ReportStatus;
+    projectTitle: string | null;
+    hotspotName: string | null;
+    hasAudio: boolean;
+    audioDisabled: boolean;
+    resolvedAt?: string;
+    resolvedBy?: string;
+};
+
+export const listReports = async (token: string, status: ReportStatus | 'all' = 'pending'): Promise<AudioReport[]> => {
+    const res = await fetch(`${BASE_URL}/admin/reports?status=${status}`, {
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to load reports");
+    const { reports } = await res.json();
+    return reports;
+};
+
+export const getReportAudioUrl = async (token: string, reportId: string): Promise<string> => {
+    const res = await fetch(`${BASE_URL}/admin/reports/${encodeURIComponent(reportId)}/audio`, {
+        headers: getHeaders(token)
+    });
+    if (!res.ok) throw new Error("Failed to load reported audio");
+    const { url } = await res.json();
+    return url;
+};
+
+export const resolveReport = async (token: string, reportId: string, status: 'dismissed' | 'actioned', disableAudio = false) => {
+    const res = await fetch(`${BASE_URL}/admin/reports/${encodeURIComponent(reportId)}/resolve`, {
+        method: 'POST',
+        headers: getHeaders(token),
+        body: JSON.stringify({ status, disableAudio })
+    });
+    if (!res.ok) throw new Error("Failed to resolve report");
+    const { report } = await res.json();
+    return report;
+};
+
 export const getUserPreferences = async (token: string) => {
     const res = await fetch(`${BASE_URL}/user/preferences`, {
         headers: getHeaders(token)
@@ -0,0 +1,191 @@
+// Self-contained project bundles, for backups and for moving maps between
+// accounts.
+//
+// A bundle is a ZIP archive with `manifest.json` and every file the project
+// uses under `media/`. In the manifest the project's storage paths are replaced
+// by the names of those files, so nothing in it depends on an account.
+
+import { getSignedUrl, uploadFile } from './api';
+import { createZip, readZip } from './zip';
+import type { ZipEntry } from './zip';
+import { migrateProject } from '../supabase/functions/_shared/projectSchema';
+import { allHotspots, listScenes, updateScenes, updateScenesAsync } from '../supabase/functions/_shared/scenes';
+
+export const BUNDLE_FORMAT = 'soundmap-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.soundmap.zip';
+
+const MANIFEST_NAME = 'manifest.json';
+const MEDIA_FOLDER = 'media/';
+
+type BundleFile = {
+  name: string; // Path inside the archive
+  type: string; // MIME type, restored on upload
+};
+
+type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  project: any;
+  files: BundleFile[];
+};
+
+export type BundleProgress = {
+  done: number;
+  total: number;
+};
+
+// Thrown for a file that isn't a bundle this version of the app can read
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+// Calls `replace` with every file path of the project and puts its result in place
+const mapFilePaths = async (project: any, replace: (path: string | null | undefined) => Promise<string | null>) => ({
+  ...(await updateScenesAsync(project, async (scene) => ({
+    imagePath: await replace(scene.imagePath),
+    hotspots: await Promise.all(scene.hotspots.map(async (h: any) => ({
+      ...h,
+      audioPath: await replace(h.audioPath),
+      transitionAudioPath: await replace(h.transitionAudioPath),
+    }))),
+    globalChannels: await Promise.all(scene.globalChannels.map(async (c: any) => ({ ...c, audioPath: await replace(c.audioPath) }))),
+  }))),
+  introAudioPath: await replace(project.introAudioPath),
+});
+
+// Every file path of the project, once each
+const filePaths = (project: any): string[] => {
+  return [...new Set([
+    project.introAudioPath,
+    ...listScenes(project).map(scene => scene.imagePath),
+    ...allHotspots(project).flatMap((h: any) => [h.audioPath, h.transitionAudioPath]),
+    ...listScenes(project).flatMap(scene => scene.globalChannels.map((c: any) => c.audioPath)),
+  ].filter(Boolean))];
+};
+
+// The project as it is saved, without the signed URLs and local files of the
+// editor. Audio a moderator switched off isn't handed out, so it is left out too.
+export const exportableProject = (project: any) => updateScenes({
+  ...project,
+  introAudioFile: undefined,
+  introAudioUrl: undefined,
+  version: undefined,
+  updatedAt: undefined,
+}, (scene) => ({
+  imageFile: undefined,
+  imageUrl: undefined,
+  hotspots: scene.hotspots.map((h: any) => ({
+    ...h,
+    audioFile: undefined,
+    audioUrl: undefined,
+    transitionAudioFile: undefined,
+    transitionAudioUrl: undefined,
+    ...(h.audioDisabled ? { audioPath: null, audioDisabled: undefined } : {}),
+  })),
+  globalChannels: scene.globalChannels.map((c: any) => ({ ...c, audioFile: undefined, audioUrl: undefined })),
+}));
+
+// Downloads every file of the project, one at a time so large maps don't fetch
+// everything at once. Returns them by storage path, named `media/<n>-<file>`.
+export const downloadProjectFiles = async (
+  token: string,
+  project: any,
+  onProgress?: (progress: BundleProgress) => void
+) => {
+  const files = new Map<string, ZipEntry & BundleFile>();
+  const paths = filePaths(project);
+  onProgress?.({ done: 0, total: paths.length });
+
+  for (const path of paths) {
+    const { url } = await getSignedUrl(token, path);
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to download ${path}`);
+
+    files.set(path, {
+      name: `${MEDIA_FOLDER}${files.size + 1}-${path.split('/').pop()}`,
+      type: res.headers.get('Content-Type') || 'application/octet-stream',
+      data: new Uint8Array(await res.arrayBuffer()),
+    });
+    onProgress?.({ done: files.size, total: paths.length });
+  }
+
+  return files;
+};
+
+// Downloads the project's files and packs them with the project into one archive
+export const exportProjectBundle = async (
+  token: string,
+  project: any,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<Blob> => {
+  const exportable = exportableProject(project);
+  const files = await downloadProjectFiles(token, exportable, onProgress);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: await mapFilePaths(exportable, async (path) => (path && files.get(path)?.name) || null),
+    files: [...files.values()].map(({ name, type }) => ({ name, type })),
+  };
+
+  return createZip([
+    { name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...[...files.values()].map(({ name, data }) => ({ name, data })),
+  ]);
+};
+
+// Reads a bundle and uploads its files for `userId`. Returns the project with
+// a new id, ready to be saved; throws BundleError or ProjectSchemaError when the
+// bundle can't be used.
+export const importProjectBundle = async (
+  token: string,
+  userId: string,
+  bundle: Blob,
+  onProgress?: (progress: BundleProgress) => void
+) => {
+  let archive: Map<string, Uint8Array>;
+  let manifest: BundleManifest;
+  try {
+    archive = await readZip(await bundle.arrayBuffer());
+    manifest = JSON.parse(new TextDecoder().decode(archive.get(MANIFEST_NAME)));
+  } catch (err) {
+    throw new BundleError('This file is not a sound map bundle');
+  }
+
+  if (manifest?.format !== BUNDLE_FORMAT) {
+    throw new BundleError('This file is not a sound map bundle');
+  }
+  if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > BUNDLE_VERSION) {
+    throw new BundleError('This bundle was made by a newer version of the app');
+  }
+
+  const id = crypto.randomUUID();
+  const project = migrateProject({ ...manifest.project, id });
+  const types = new Map((manifest.files ?? []).map(f => [f.name, f.type]));
+  const uploaded = new Map<string, string>(); // Name in the bundle -> storage path
+  const names = filePaths(project);
+
+  // Check before uploading anything
+  const missing = names.find(name => !archive.has(name));
+  if (missing) throw new BundleError(`The bundle is missing ${missing}`);
+
+  onProgress?.({ done: 0, total: names.length });
+  for (const name of names) {
+    const fileName = name.split('/').pop() || name;
+    const file = new File([archive.get(name)!], fileName, { type: types.get(name) || 'application/octet-stream' });
+    uploaded.set(name, await uploadFile(token, file, `${userId}/${id}/${fileName}`));
+    onProgress?.({ done: uploaded.size, total: names.length });
+  }
+
+  return {
+    ...(await mapFilePaths(project, async (name) => (name && uploaded.get(name)) || null)),
+    id,
+    createdAt: Date.now(),
+  };
+};
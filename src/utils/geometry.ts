@@ -0,0 +1,252 @@
+// Polygon geometry helpers shared by the editor and the player.
+// All coordinates are percentages (0-100) of the image size.
+
+export type Point = { x: number; y: number };
+
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].x, yi = polygon[i].y;
+    const xj = polygon[j].x, yj = polygon[j].y;
+
+    const intersect = ((yi > point.y) !== (yj > point.y))
+      && (point.x < (xj - xi) * (point.y - yi) / (yj - yi) + xi);
+    if (intersect) inside = !inside;
+  }
+  return inside;
+};
+
+const doEdgesIntersect = (p1: Point, p2: Point, p3: Point, p4: Point): boolean => {
+  const ccw = (A: Point, B: Point, C: Point) => {
+    return (C.y - A.y) * (B.x - A.x) > (B.y - A.y) * (C.x - A.x);
+  };
+  return ccw(p1, p3, p4) !== ccw(p2, p3, p4) && ccw(p1, p2, p3) !== ccw(p1, p2, p4);
+};
+
+const edgesCross = (poly1: Point[], poly2: Point[]): boolean => {
+  for (let i = 0; i < poly1.length; i++) {
+    const p1 = poly1[i];
+    const p2 = poly1[(i + 1) % poly1.length];
+
+    for (let j = 0; j < poly2.length; j++) {
+      const p3 = poly2[j];
+      const p4 = poly2[(j + 1) % poly2.length];
+
+      if (doEdgesIntersect(p1, p2, p3, p4)) return true;
+    }
+  }
+  return false;
+};
+
+// Check if two polygons overlap using point-in-polygon and edge intersection tests
+export const polygonsOverlap = (poly1: Point[], poly2: Point[]): boolean => {
+  // Check if any point of poly1 is in poly2
+  for (const point of poly1) {
+    if (isPointInPolygon(point, poly2)) return true;
+  }
+
+  // Check if any point of poly2 is in poly1
+  for (const point of poly2) {
+    if (isPointInPolygon(point, poly1)) return true;
+  }
+
+  // Check if any edges intersect
+  return edgesCross(poly1, poly2);
+};
+
+// True when `inner` lies entirely within `outer` (no vertex outside, no edges crossing)
+export const isPolygonInside = (inner: Point[], outer: Point[]): boolean => {
+  if (inner.length === 0 || outer.length < 3) return false;
+  return inner.every(point => isPointInPolygon(point, outer)) && !edgesCross(inner, outer);
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Distance from a point to the nearest edge of a polygon; 0 when the point is inside
+export const distanceToPolygon = (point: Point, polygon: Point[]): number => {
+  if (polygon.length === 0) return Infinity;
+  if (isPointInPolygon(point, polygon)) return 0;
+
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    min = Math.min(min, distanceToSegment(point, polygon[j], polygon[i]));
+  }
+  return min;
+};
+
+// Area-weighted centroid. Falls back to the vertex average for degenerate shapes.
+export const polygonCentroid = (points: Point[]): Point => {
+  if (points.length === 0) return { x: 0, y: 0 };
+
+  let area = 0, cx = 0, cy = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const cross = points[j].x * points[i].y - points[i].x * points[j].y;
+    area += cross;
+    cx += (points[j].x + points[i].x) * cross;
+    cy += (points[j].y + points[i].y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-6) {
+    const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+  }
+
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+};
+
+// ---------------------------------------------------------------------------
+// SPATIAL NAVIGATION
+// ---------------------------------------------------------------------------
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+// Zones whose centroids are within this many percent vertically share a row
+const ROW_TOLERANCE = 8;
+
+// Orders shapes like text is read: top row first, left to right within a row.
+export const sortByReadingOrder = <T extends { points: Point[] }>(items: T[]): T[] => {
+  const withCentroids = items
+    .map(item => ({ item, c: polygonCentroid(item.points) }))
+    .sort((a, b) => a.c.y - b.c.y);
+
+  const rows: { top: number; members: typeof withCentroids }[] = [];
+  for (const entry of withCentroids) {
+    const row = rows[rows.length - 1];
+    if (row && entry.c.y - row.top <= ROW_TOLERANCE) {
+      row.members.push(entry);
+    } else {
+      rows.push({ top: entry.c.y, members: [entry] });
+    }
+  }
+
+  return rows.flatMap(row => row.members.sort((a, b) => a.c.x - b.c.x).map(m => m.item));
+};
+
+// Finds the closest shape in the given direction from `from`, favouring shapes
+// that are roughly in line with it over ones far off to the side.
+export const findNearestInDirection = <T extends { id: string; points: Point[] }>(
+  from: T,
+  items: T[],
+  direction: Direction
+): T | null => {
+  const origin = polygonCentroid(from.points);
+  let best: T | null = null;
+  let bestScore = Infinity;
+
+  for (const item of items) {
+    if (item.id === from.id) continue;
+    const c = polygonCentroid(item.points);
+    const dx = c.x - origin.x;
+    const dy = c.y - origin.y;
+
+    const along = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+    const across = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 0) continue;
+
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = item;
+    }
+  }
+
+  return best;
+};
+
+// ---------------------------------------------------------------------------
+// SHAPE EDITING
+// ---------------------------------------------------------------------------
+
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+export const polygonBounds = (points: Point[]): Bounds => ({
+  minX: Math.min(...points.map(p => p.x)),
+  minY: Math.min(...points.map(p => p.y)),
+  maxX: Math.max(...points.map(p => p.x)),
+  maxY: Math.max(...points.map(p => p.y)),
+});
+
+export const clampToImage = (point: Point): Point => ({
+  x: Math.max(0, Math.min(100, point.x)),
+  y: Math.max(0, Math.min(100, point.y)),
+});
+
+// Shifts a shape by (dx, dy), stopping at the image border instead of leaving it
+export const clampTranslation = (points: Point[], dx: number, dy: number): Point => {
+  const b = polygonBounds(points);
+  return {
+    x: Math.max(-b.minX, Math.min(100 - b.maxX, dx)),
+    y: Math.max(-b.minY, Math.min(100 - b.maxY, dy)),
+  };
+};
+
+export const translatePolygon = (points: Point[], dx: number, dy: number): Point[] => {
+  return points.map(p => ({ x: p.x + dx, y: p.y + dy }));
+};
+
+// Scales a shape away from (or towards) a fixed anchor point
+export const scalePolygon = (points: Point[], anchor: Point, sx: number, sy: number): Point[] => {
+  return points.map(p => ({
+    x: anchor.x + (p.x - anchor.x) * sx,
+    y: anchor.y + (p.y - anchor.y) * sy,
+  }));
+};
+
+// ---------------------------------------------------------------------------
+// SHAPE TOOLS
+// ---------------------------------------------------------------------------
+
+// Points used to approximate an ellipse
+const ELLIPSE_SEGMENTS = 32;
+
+export const rectanglePoints = (a: Point, b: Point): Point[] => [
+  { x: a.x, y: a.y },
+  { x: b.x, y: a.y },
+  { x: b.x, y: b.y },
+  { x: a.x, y: b.y },
+];
+
+// Ellipse inscribed in the box spanned by `a` and `b`
+export const ellipsePoints = (a: Point, b: Point, segments = ELLIPSE_SEGMENTS): Point[] => {
+  const cx = (a.x + b.x) / 2, cy = (a.y + b.y) / 2;
+  const rx = Math.abs(b.x - a.x) / 2, ry = Math.abs(b.y - a.y) / 2;
+  return Array.from({ length: segments }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+};
+
+// Ramer–Douglas–Peucker: drops points that lie within `tolerance` of the line
+// through the points kept around them, turning a jittery freehand stroke into a
+// clean outline with a handful of vertices.
+export const simplifyPath = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = distanceToSegment(points[i], points[start], points[end]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+};
@@ -0,0 +1,63 @@
+// Haptic feedback via the Vibration API.
+// Patterns follow navigator.vibrate(): alternating vibrate/pause durations in ms.
+
+export const HAPTIC_PRESETS = {
+  none: { label: 'None', pattern: [] },
+  tick: { label: 'Tick', pattern: [15] },
+  tap: { label: 'Short tap', pattern: [40] },
+  doubleTap: { label: 'Double tap', pattern: [40, 60, 40] },
+  buzz: { label: 'Long buzz', pattern: [200] },
+  heartbeat: { label: 'Heartbeat', pattern: [60, 80, 120] },
+  triple: { label: 'Triple pulse', pattern: [30, 40, 30, 40, 30] },
+} as const;
+
+export type HapticPresetId = keyof typeof HAPTIC_PRESETS;
+
+export type HapticEvent = 'enter' | 'leave' | 'edge';
+
+export type HapticSettings = {
+  enabled: boolean;
+  enter: HapticPresetId;
+  leave: HapticPresetId;
+  edge: HapticPresetId;
+};
+
+// Per-zone overrides; unset events fall back to the project settings
+export type HotspotHaptics = Partial<Record<'enter' | 'leave', HapticPresetId>>;
+
+export const DEFAULT_HAPTICS: HapticSettings = {
+  enabled: true,
+  enter: 'tap',
+  leave: 'tick',
+  edge: 'buzz',
+};
+
+// Distance (in % of the image) from the border that counts as "at the edge"
+export const EDGE_MARGIN = 2;
+
+export const isHapticsSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+};
+
+export const vibrate = (preset: HapticPresetId | undefined) => {
+  if (!preset || !isHapticsSupported()) return;
+  const pattern = HAPTIC_PRESETS[preset]?.pattern;
+  if (!pattern || pattern.length === 0) return;
+  try {
+    navigator.vibrate([...pattern]);
+  } catch (e) {
+    // Some browsers throw when vibration is blocked by user settings
+    console.warn('Vibration failed:', e);
+  }
+};
+
+export const resolveHapticPreset = (
+  event: HapticEvent,
+  settings: HapticSettings | undefined,
+  override?: HotspotHaptics
+): HapticPresetId | undefined => {
+  const resolved = { ...DEFAULT_HAPTICS, ...settings };
+  if (!resolved.enabled) return undefined;
+  if (event !== 'edge' && override?.[event]) return override[event];
+  return resolved[event];
+};
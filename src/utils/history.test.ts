@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { COALESCE_MS, createHistory, HISTORY_LIMIT, recordChange, redoChange, undoChange } from './history';
+
+// Records each state as a separate change, far enough apart not to coalesce
+const recordAll = (states: number[], start = 0) => {
+  return states.reduce((h, state, i) => recordChange(h, state, start + (i + 1) * COALESCE_MS * 2), createHistory<number>());
+};
+
+describe('recordChange', () => {
+  it('keeps the states to return to, oldest first', () => {
+    expect(recordAll([1, 2, 3]).past).toEqual([1, 2, 3]);
+  });
+
+  it('turns changes within the coalescing window into one step', () => {
+    let history = recordChange(createHistory<number>(), 1, 10_000);
+    history = recordChange(history, 2, 10_000 + COALESCE_MS - 1);
+    history = recordChange(history, 3, 10_000 + 2 * COALESCE_MS - 2);
+    expect(history.past).toEqual([1]);
+
+    history = recordChange(history, 4, 10_000 + 3 * COALESCE_MS);
+    expect(history.past).toEqual([1, 4]);
+  });
+
+  it(`keeps only the last ${HISTORY_LIMIT} states`, () => {
+    const states = Array.from({ length: HISTORY_LIMIT + 5 }, (_, i) => i);
+    const { past } = recordAll(states);
+    expect(past).toHaveLength(HISTORY_LIMIT);
+    expect(past[0]).toBe(5);
+    expect(past[past.length - 1]).toBe(HISTORY_LIMIT + 4);
+  });
+});
+
+describe('undoChange and redoChange', () => {
+  it('have nothing to do on an empty history', () => {
+    expect(undoChange(createHistory<number>(), 0)).toBeNull();
+    expect(redoChange(createHistory<number>(), 0)).toBeNull();
+  });
+
+  it('step back and forth through the recorded states', () => {
+    // States went 1 → 2 → 3, so 3 is current
+    const undone = undoChange(recordAll([1, 2]), 3)!;
+    expect(undone.state).toBe(2);
+    expect(undone.history).toMatchObject({ past: [1], future: [3] });
+
+    const undoneTwice = undoChange(undone.history, undone.state)!;
+    expect(undoneTwice.state).toBe(1);
+    expect(undoneTwice.history).toMatchObject({ past: [], future: [2, 3] });
+
+    const redone = redoChange(undoneTwice.history, undoneTwice.state)!;
+    expect(redone.state).toBe(2);
+    expect(redone.history).toMatchObject({ past: [1], future: [3] });
+  });
+
+  it('drops the redo branch once a new change is made', () => {
+    const undone = undoChange(recordAll([1, 2]), 3)!;
+    const history = recordChange(undone.history, undone.state, 1_000_000);
+    expect(history).toMatchObject({ past: [1, 2], future: [] });
+    expect(redoChange(history, 4)).toBeNull();
+  });
+
+  it('never merges the first change after an undo into an earlier step', () => {
+    const recorded = recordChange(recordChange(createHistory<number>(), 1, 10_000), 2, 20_000);
+    const undone = undoChange(recorded, 3)!;
+    const history = recordChange(undone.history, undone.state, 20_001);
+    expect(history.past).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,54 @@
+// Undo/redo history built from immutable snapshots.
+// Project updates copy only what changed, so consecutive snapshots share most of
+// their data and keeping a few dozen of them is cheap.
+
+export type History<T> = {
+  past: T[];    // Oldest first
+  future: T[];  // Next redo first
+  lastRecordedAt: number;
+};
+
+// Entries kept per history; the oldest are dropped beyond this
+export const HISTORY_LIMIT = 50;
+
+// Changes closer together than this (slider drags, typing) become one undo step
+export const COALESCE_MS = 500;
+
+export const createHistory = <T>(): History<T> => ({ past: [], future: [], lastRecordedAt: 0 });
+
+// Records `previous` as the state to return to before a change
+export const recordChange = <T>(history: History<T>, previous: T, now = Date.now()): History<T> => {
+  if (now - history.lastRecordedAt < COALESCE_MS && history.past.length > 0) {
+    // Still the same burst: the snapshot from before it stays the undo target
+    return { ...history, future: [], lastRecordedAt: now };
+  }
+  return {
+    past: [...history.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+    lastRecordedAt: now,
+  };
+};
+
+export const undoChange = <T>(history: History<T>, current: T): { history: History<T>; state: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    state: history.past[history.past.length - 1],
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future].slice(0, HISTORY_LIMIT),
+      lastRecordedAt: 0,
+    },
+  };
+};
+
+export const redoChange = <T>(history: History<T>, current: T): { history: History<T>; state: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    state: history.future[0],
+    history: {
+      past: [...history.past, current].slice(-HISTORY_LIMIT),
+      future: history.future.slice(1),
+      lastRecordedAt: 0,
+    },
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { findOverlappingZone, validateZoneLayering } from './layers';
+import { rectanglePoints } from './geometry';
+
+const zone = (id: string, x1: number, y1: number, x2: number, y2: number, parentId: string | null = null) => ({
+  id,
+  name: id,
+  points: rectanglePoints({ x: x1, y: y1 }, { x: x2, y: y2 }),
+  parentId,
+});
+
+const room = zone('room', 10, 10, 60, 60);
+const table = zone('table', 20, 20, 30, 30, 'room');
+const door = zone('door', 70, 10, 90, 30);
+
+describe('findOverlappingZone', () => {
+  it('allows a shape apart from every zone', () => {
+    expect(findOverlappingZone({ id: '', points: zone('', 70, 40, 90, 60).points }, [room, table, door])).toBeNull();
+  });
+
+  it('allows a shape nested in the zones it lies in', () => {
+    const lamp = zone('lamp', 22, 22, 28, 28, 'table');
+    expect(findOverlappingZone(lamp, [room, table, door])).toBeNull();
+  });
+
+  it('refuses a shape that partly covers a zone', () => {
+    const hall = zone('hall', 50, 20, 80, 40);
+    expect(findOverlappingZone(hall, [room, table, door])?.id).toBe('room');
+  });
+
+  it('refuses a shape inside a zone it is not nested in', () => {
+    expect(findOverlappingZone({ ...table, parentId: null }, [room, table, door])?.id).toBe('room');
+  });
+
+  it('lets an edited zone keep covering the zones nested in it', () => {
+    expect(findOverlappingZone(room, [room, table, door])).toBeNull();
+  });
+});
+
+describe('validateZoneLayering', () => {
+  it('refuses moving a zone so it partly covers a sibling', () => {
+    const moved = { ...door, points: zone('door', 50, 10, 70, 30).points };
+    expect(validateZoneLayering([room, table, moved], 'door')).toMatch(/overlap room/);
+  });
+
+  it('accepts moving a zone within the space around it', () => {
+    const moved = { ...door, points: zone('door', 70, 40, 90, 60).points };
+    expect(validateZoneLayering([room, table, moved], 'door')).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+// Zone layering.
+// The order of `project.hotspots` is the z-order: later zones sit on top of
+// earlier ones. A zone may be nested inside another through `parentId`; a child
+// always stays above its parent so the parent never hides it. Zones overlap only
+// by nesting: one that partly covers another is refused.
+
+import { isPointInPolygon, isPolygonInside, polygonsOverlap, type Point } from './geometry';
+
+// What happens where a zone lies on top of others:
+// 'solo' = only this zone sounds, 'mix' = the zones underneath keep sounding too
+export type OverlapMode = 'solo' | 'mix';
+
+export const OVERLAP_MODES: Record<OverlapMode, string> = {
+  solo: 'Only this zone (innermost wins)',
+  mix: 'Mix with zones underneath',
+};
+
+type LayeredZone = {
+  id: string;
+  name?: string;
+  points: Point[];
+  parentId?: string | null;
+  overlapMode?: OverlapMode;
+};
+
+// Zones under a point, topmost first
+export const zonesAtPoint = <T extends LayeredZone>(point: Point, zones: T[]): T[] => {
+  return zones.filter(zone => isPointInPolygon(point, zone.points)).reverse();
+};
+
+// Zones that should sound at a point: the topmost one, then each zone beneath it
+// for as long as the zones above let the sound mix through.
+export const audibleZonesAt = <T extends LayeredZone>(point: Point, zones: T[]): T[] => {
+  const audible: T[] = [];
+  for (const zone of zonesAtPoint(point, zones)) {
+    audible.push(zone);
+    if ((zone.overlapMode ?? 'solo') === 'solo') break;
+  }
+  return audible;
+};
+
+// The topmost zone that fully contains `points`, i.e. where a new shape nests
+export const findContainingZone = <T extends LayeredZone>(points: Point[], zones: T[], excludeId?: string): T | null => {
+  for (let i = zones.length - 1; i >= 0; i--) {
+    const zone = zones[i];
+    if (zone.id !== excludeId && isPolygonInside(points, zone.points)) return zone;
+  }
+  return null;
+};
+
+// Zones that fully contain `points`, i.e. the possible parents of a shape
+export const findContainingZones = <T extends LayeredZone>(points: Point[], zones: T[], excludeId?: string): T[] => {
+  return zones.filter(zone => zone.id !== excludeId && isPolygonInside(points, zone.points));
+};
+
+const getParent = <T extends LayeredZone>(zone: T, zones: T[]): T | undefined => {
+  return zone.parentId ? zones.find(z => z.id === zone.parentId) : undefined;
+};
+
+export const isDescendantOf = <T extends LayeredZone>(zone: T, ancestorId: string, zones: T[]): boolean => {
+  const seen = new Set<string>();
+  let parent = getParent(zone, zones);
+  while (parent && !seen.has(parent.id)) {
+    if (parent.id === ancestorId) return true;
+    seen.add(parent.id);
+    parent = getParent(parent, zones);
+  }
+  return false;
+};
+
+// How many ancestors a zone has; used to indent the layer list
+export const layerDepth = <T extends LayeredZone>(zone: T, zones: T[]): number => {
+  const seen = new Set<string>();
+  let depth = 0;
+  let parent = getParent(zone, zones);
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    depth++;
+    parent = getParent(parent, zones);
+  }
+  return depth;
+};
+
+// Moves a zone one step up (+1) or down (-1) the stack. Moves that would put a
+// child below its parent are refused and return the same array.
+export const moveLayer = <T extends LayeredZone>(zones: T[], id: string, delta: 1 | -1): T[] => {
+  const index = zones.findIndex(z => z.id === id);
+  const target = index + delta;
+  if (index === -1 || target < 0 || target >= zones.length) return zones;
+
+  const [lower, upper] = delta > 0 ? [zones[index], zones[target]] : [zones[target], zones[index]];
+  if (isDescendantOf(upper, lower.id, zones)) return zones;
+
+  const next = [...zones];
+  next[index] = zones[target];
+  next[target] = zones[index];
+  return next;
+};
+
+// Nests a zone (and everything nested in it) under `parentId`, lifting it above
+// the parent if it currently sits below. `null` detaches it.
+export const setZoneParent = <T extends LayeredZone>(zones: T[], id: string, parentId: string | null): T[] => {
+  const updated = zones.map(z => z.id === id ? { ...z, parentId } : z);
+  if (!parentId) return updated;
+
+  const index = updated.findIndex(z => z.id === id);
+  const parentIndex = updated.findIndex(z => z.id === parentId);
+  if (index === -1 || parentIndex === -1 || index > parentIndex) return updated;
+
+  const block = updated.filter(z => z.id === id || isDescendantOf(z, id, updated));
+  const rest = updated.filter(z => !block.includes(z));
+  rest.splice(rest.findIndex(z => z.id === parentId) + 1, 0, ...block);
+  return rest;
+};
+
+// Removes a zone; its children move up to its own parent
+export const removeZone = <T extends LayeredZone>(zones: T[], id: string): T[] => {
+  const removed = zones.find(z => z.id === id);
+  return zones
+    .filter(z => z.id !== id)
+    .map(z => z.parentId === id ? { ...z, parentId: removed?.parentId ?? null } : z);
+};
+
+// Checks that an edited zone still respects its nesting: it must stay inside its
+// parent, keep its own children inside it and not partly cover any other zone.
+// Returns a message for the first problem found, or null when the layout is valid.
+export const validateZoneLayering = <T extends LayeredZone>(zones: T[], id: string): string | null => {
+  const zone = zones.find(z => z.id === id);
+  if (!zone) return null;
+  if (zone.points.length < 3) return 'A zone needs at least three points.';
+
+  const parent = getParent(zone, zones);
+  if (parent && !isPolygonInside(zone.points, parent.points)) {
+    return `${zone.name ?? 'This zone'} must stay inside ${parent.name ?? 'its parent zone'}.`;
+  }
+
+  const escaped = zones.find(z => z.parentId === id && !isPolygonInside(z.points, zone.points));
+  if (escaped) {
+    return `${escaped.name ?? 'A nested zone'} would no longer fit inside ${zone.name ?? 'this zone'}.`;
+  }
+
+  const overlapped = findOverlappingZone(zone, zones);
+  if (overlapped) {
+    return `${zone.name ?? 'This zone'} would overlap ${overlapped.name ?? 'another zone'} without being nested in it.`;
+  }
+
+  return null;
+};
+
+// The first zone that `zone` would partly cover: any it overlaps other than the
+// zones it is nested in and the ones nested in it. `zone` may be a new shape
+// that isn't in `zones` yet.
+export const findOverlappingZone = <T extends LayeredZone>(zone: Pick<LayeredZone, 'id' | 'points' | 'parentId'>, zones: T[]): T | null => {
+  const related = getDescendantIds(zones, zone.id);
+  let parent = zone.parentId ? zones.find(z => z.id === zone.parentId) : undefined;
+  while (parent && !related.has(parent.id)) {
+    related.add(parent.id);
+    parent = getParent(parent, zones);
+  }
+  return zones.find(z => z.id !== zone.id && !related.has(z.id) && polygonsOverlap(zone.points, z.points)) ?? null;
+};
+
+// Ids of every zone nested (directly or not) inside `id`
+export const getDescendantIds = <T extends LayeredZone>(zones: T[], id: string): Set<string> => {
+  return new Set(zones.filter(z => isDescendantOf(z, id, zones)).map(z => z.id));
+};
@@ -0,0 +1,127 @@
+// Offline copies of shared maps.
+//
+// Saving a map for offline use downloads its image and audio into MEDIA_CACHE
+// and keeps the map itself in MAPS_CACHE. The service worker (public/sw.js)
+// answers requests for those files from the cache; they are keyed without the
+// signing token because every load of the map hands out new signed URLs.
+
+import { allHotspots, listScenes } from '../supabase/functions/_shared/scenes';
+
+const MEDIA_CACHE = 'soundmap-media-v1'; // Also named in public/sw.js
+const MAPS_CACHE = 'soundmap-maps-v1';   // Also named in public/sw.js
+const LAST_MAP_KEY = 'soundmap-last-offline-map';
+
+export type OfflineStatus = 'none' | 'saved' | 'outdated'; // outdated: saved, but files have changed since
+
+export type OfflineProgress = {
+  done: number;
+  total: number;
+};
+
+export const isOfflineSupported = () => {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'caches' in window;
+};
+
+// Production builds only; a worker caching dev-server modules would break hot reload
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !isOfflineSupported()) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+      .catch(err => console.error('Service worker registration failed:', err));
+  });
+};
+
+// The installed app starts at `?launch=app`; reopen the map saved last so a
+// kiosk tablet goes straight back to it
+export const resumeInstalledMap = () => {
+  const params = new URLSearchParams(window.location.search);
+  if (params.get('launch') !== 'app' || params.get('s')) return;
+
+  const shortId = localStorage.getItem(LAST_MAP_KEY);
+  if (shortId) window.history.replaceState(null, '', `${window.location.pathname}?s=${encodeURIComponent(shortId)}`);
+};
+
+const mediaKey = (url: string) => {
+  const { origin, pathname } = new URL(url);
+  return origin + pathname;
+};
+
+const mapKey = (shortId: string) => `${import.meta.env.BASE_URL}offline-maps/${encodeURIComponent(shortId)}`;
+
+const mediaUrls = (project: any): string[] => {
+  return [
+    project.introAudioUrl,
+    ...listScenes(project).map(scene => scene.imageUrl),
+    ...allHotspots(project).flatMap((h: any) => [h.audioUrl, h.transitionAudioUrl]),
+    ...listScenes(project).flatMap(scene => scene.globalChannels.map((c: any) => c.audioUrl)),
+  ].filter((url): url is string => typeof url === 'string' && url.startsWith('http'));
+};
+
+// Downloads every file of the map. Files already saved (e.g. shared with
+// another saved map) are not fetched again.
+export const saveMapOffline = async (
+  shortId: string,
+  project: any,
+  onProgress: (progress: OfflineProgress) => void
+) => {
+  const media = await caches.open(MEDIA_CACHE);
+  const urls = [...new Set(mediaUrls(project))];
+  let done = 0;
+  onProgress({ done, total: urls.length });
+
+  for (const url of urls) {
+    if (!(await media.match(mediaKey(url)))) {
+      const res = await fetch(url, { mode: 'cors' });
+      if (!res.ok) throw new Error(`Failed to download ${mediaKey(url)}`);
+      await media.put(mediaKey(url), res);
+    }
+    onProgress({ done: ++done, total: urls.length });
+  }
+
+  const maps = await caches.open(MAPS_CACHE);
+  await maps.put(mapKey(shortId), new Response(JSON.stringify({ project, savedAt: Date.now() }), {
+    headers: { 'Content-Type': 'application/json' },
+  }));
+  localStorage.setItem(LAST_MAP_KEY, shortId);
+
+  // Ask the browser not to evict the files when space runs low
+  await navigator.storage?.persist?.().catch(() => false);
+};
+
+// The saved copy of a map, or null
+export const getOfflineMap = async (shortId: string): Promise<{ project: any; savedAt: number } | null> => {
+  if (!isOfflineSupported()) return null;
+  const res = await (await caches.open(MAPS_CACHE)).match(mapKey(shortId));
+  return res ? res.json() : null;
+};
+
+export const getOfflineStatus = async (shortId: string, project: any): Promise<OfflineStatus> => {
+  if (!(await getOfflineMap(shortId))) return 'none';
+  const media = await caches.open(MEDIA_CACHE);
+  const cached = await Promise.all(mediaUrls(project).map(url => media.match(mediaKey(url))));
+  return cached.every(Boolean) ? 'saved' : 'outdated';
+};
+
+// Forgets the map and deletes the files no other saved map uses
+export const removeOfflineMap = async (shortId: string) => {
+  const maps = await caches.open(MAPS_CACHE);
+  const removed = await getOfflineMap(shortId);
+  await maps.delete(mapKey(shortId));
+  if (localStorage.getItem(LAST_MAP_KEY) === shortId) localStorage.removeItem(LAST_MAP_KEY);
+  if (!removed) return;
+
+  const stillUsed = new Set<string>();
+  for (const request of await maps.keys()) {
+    const other = await (await maps.match(request))?.json();
+    if (other) mediaUrls(other.project).forEach(url => stillUsed.add(mediaKey(url)));
+  }
+
+  const media = await caches.open(MEDIA_CACHE);
+  await Promise.all(
+    mediaUrls(removed.project)
+      .map(mediaKey)
+      .filter(key => !stillUsed.has(key))
+      .map(key => media.delete(key))
+  );
+};
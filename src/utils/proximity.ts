@@ -0,0 +1,30 @@
+// Distance falloff for zones that become audible before the pointer enters them.
+
+export type FalloffCurve = 'linear' | 'smooth' | 'steep';
+
+export const FALLOFF_CURVES: Record<FalloffCurve, string> = {
+  linear: 'Linear',
+  smooth: 'Smooth',
+  steep: 'Steep',
+};
+
+// Upper bound for the radius slider, in % of the image
+export const MAX_PROXIMITY_RADIUS = 25;
+
+// Gain multiplier (0-1) for a point `distance` away from a zone's edge
+export const proximityGain = (distance: number, radius: number, curve: FalloffCurve = 'smooth'): number => {
+  if (distance <= 0) return 1;
+  if (radius <= 0 || distance >= radius) return 0;
+
+  const t = 1 - distance / radius; // 1 at the edge, 0 at the radius
+  switch (curve) {
+    case 'linear':
+      return t;
+    case 'steep':
+      // Quiet until close, then rises quickly
+      return t * t * t;
+    case 'smooth':
+    default:
+      return t * t * (3 - 2 * t);
+  }
+};
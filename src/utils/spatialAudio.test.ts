@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { renderSpatialBuffer, toAudioSpace } from './spatialAudio';
+
+// node-web-audio-api renders Web Audio in Node. Its native module links the
+// system's ALSA library even for offline rendering; where that is missing the
+// rendering tests are skipped.
+const webAudio = await import('node-web-audio-api').catch(() => null);
+
+const SAMPLE_RATE = 44100;
+
+// Half a second of repeatable broadband noise, so the HRTF has every frequency to work with
+const noise = () => {
+  const buffer = new webAudio!.AudioBuffer({ length: SAMPLE_RATE / 2, sampleRate: SAMPLE_RATE, numberOfChannels: 1 });
+  const samples = new Float32Array(buffer.length);
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = (seed / 2147483647) * 2 - 1;
+  }
+  buffer.copyToChannel(samples, 0);
+  return buffer as unknown as AudioBuffer;
+};
+
+const energy = (buffer: AudioBuffer, channel: number) => {
+  return buffer.getChannelData(channel).reduce((sum, v) => sum + v * v, 0);
+};
+
+const render = (source: { x: number; y: number }, listener: { x: number; y: number }) => {
+  return renderSpatialBuffer(noise(), source, listener, webAudio!.OfflineAudioContext as unknown as typeof OfflineAudioContext);
+};
+
+describe('toAudioSpace', () => {
+  it('puts the image centre at the origin, right as +x and down as +z', () => {
+    expect(toAudioSpace({ x: 50, y: 50 })).toEqual({ x: 0, y: 0, z: 0 });
+    expect(toAudioSpace({ x: 80, y: 20 })).toEqual({ x: 3, y: 0, z: -3 });
+  });
+});
+
+describe.skipIf(!webAudio)('renderSpatialBuffer', () => {
+  it('renders a source to the right of the listener louder on the right', async () => {
+    const output = await render({ x: 80, y: 50 }, { x: 50, y: 50 });
+    expect(output.numberOfChannels).toBe(2);
+    expect(energy(output, 1)).toBeGreaterThan(energy(output, 0) * 2);
+  });
+
+  it('renders a source to the left of the listener louder on the left', async () => {
+    const output = await render({ x: 20, y: 50 }, { x: 50, y: 50 });
+    expect(energy(output, 0)).toBeGreaterThan(energy(output, 1) * 2);
+  });
+
+  it('follows the listener rather than the image', async () => {
+    // Right of the image centre, but left of a listener further right
+    const output = await render({ x: 60, y: 50 }, { x: 90, y: 50 });
+    expect(energy(output, 0)).toBeGreaterThan(energy(output, 1));
+  });
+});
@@ -0,0 +1,92 @@
+// Spatial (HRTF) audio helpers.
+//
+// Image coordinates (0-100, y pointing down) are mapped onto the horizontal
+// plane of the Web Audio scene: x stays left/right, image y becomes depth, so
+// zones above the listener's finger sound in front and zones below sound behind.
+// Everything here takes a BaseAudioContext so it also runs in an
+// OfflineAudioContext without a browser audio device.
+
+import type { Point } from './geometry';
+
+// Image percent per Web Audio distance unit
+export const SPATIAL_SCALE = 10;
+
+export const toAudioSpace = (point: Point) => ({
+  x: (point.x - 50) / SPATIAL_SCALE,
+  y: 0,
+  z: (point.y - 50) / SPATIAL_SCALE,
+});
+
+const setParam = (param: AudioParam, value: number, ctx: BaseAudioContext) => {
+  param.setValueAtTime(value, ctx.currentTime);
+};
+
+// Older Safari has no position/orientation AudioParams, only the deprecated setters
+type LegacySpatialNode = {
+  setPosition(x: number, y: number, z: number): void;
+  setOrientation(x: number, y: number, z: number, xUp: number, yUp: number, zUp: number): void;
+};
+
+const legacyNode = (node: PannerNode | AudioListener) => node as unknown as LegacySpatialNode;
+
+export const setPannerPosition = (panner: PannerNode, point: Point, ctx: BaseAudioContext) => {
+  const pos = toAudioSpace(point);
+  if (panner.positionX) {
+    setParam(panner.positionX, pos.x, ctx);
+    setParam(panner.positionY, pos.y, ctx);
+    setParam(panner.positionZ, pos.z, ctx);
+  } else {
+    legacyNode(panner).setPosition(pos.x, pos.y, pos.z);
+  }
+};
+
+export const setListenerPosition = (ctx: BaseAudioContext, point: Point) => {
+  const listener = ctx.listener;
+  const pos = toAudioSpace(point);
+  if (listener.positionX) {
+    setParam(listener.positionX, pos.x, ctx);
+    setParam(listener.positionY, pos.y, ctx);
+    setParam(listener.positionZ, pos.z, ctx);
+    // Facing "up" the image (negative z), head pointing out of the screen
+    setParam(listener.forwardX, 0, ctx);
+    setParam(listener.forwardY, 0, ctx);
+    setParam(listener.forwardZ, -1, ctx);
+    setParam(listener.upX, 0, ctx);
+    setParam(listener.upY, 1, ctx);
+    setParam(listener.upZ, 0, ctx);
+  } else {
+    legacyNode(listener).setPosition(pos.x, pos.y, pos.z);
+    legacyNode(listener).setOrientation(0, 0, -1, 0, 1, 0);
+  }
+};
+
+export const createSpatialPanner = (ctx: BaseAudioContext, position: Point): PannerNode => {
+  const panner = ctx.createPanner();
+  panner.panningModel = 'HRTF';
+  panner.distanceModel = 'inverse';
+  panner.refDistance = 1;
+  panner.maxDistance = 100 / SPATIAL_SCALE * 2;
+  panner.rolloffFactor = 0.5;
+  setPannerPosition(panner, position, ctx);
+  return panner;
+};
+
+// Renders `input` as heard from `listener` with the sound placed at `source`.
+// Used to check the spatial mix without an audio device, e.g. that a zone to the
+// right of the finger ends up louder in the right channel.
+export const renderSpatialBuffer = async (
+  input: AudioBuffer,
+  source: Point,
+  listener: Point,
+  OfflineContext: typeof OfflineAudioContext = OfflineAudioContext
+): Promise<AudioBuffer> => {
+  const ctx = new OfflineContext(2, input.length, input.sampleRate);
+  setListenerPosition(ctx, listener);
+
+  const node = ctx.createBufferSource();
+  node.buffer = input;
+  node.connect(createSpatialPanner(ctx, source)).connect(ctx.destination);
+  node.start();
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,81 @@
+// Text-to-speech helpers built on the Web Speech API.
+
+export type SpeechMode = 'off' | 'before' | 'instead';
+
+export type SpeechSettings = {
+  voiceURI: string | null; // null = browser default voice for `lang`
+  lang: string;            // BCP 47 tag, e.g. "hu-HU"
+  rate: number;            // 0.5 to 2
+};
+
+export const DEFAULT_SPEECH: SpeechSettings = {
+  voiceURI: null,
+  lang: 'hu-HU',
+  rate: 1,
+};
+
+export const SPEECH_LANGUAGES = [
+  { value: 'hu-HU', label: 'Magyar' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'Deutsch' },
+] as const;
+
+// How long a finger or mouse button must be held on a zone to hear its description
+export const LONG_PRESS_MS = 600;
+
+export const isSpeechSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+};
+
+// Voices load asynchronously in most browsers; resolve once they are available.
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSupported()) return Promise.resolve([]);
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 1500);
+    window.speechSynthesis.addEventListener('voiceschanged', () => {
+      clearTimeout(timeout);
+      resolve(window.speechSynthesis.getVoices());
+    }, { once: true });
+  });
+};
+
+export const speak = (
+  text: string,
+  settings: SpeechSettings | undefined,
+  onEnd?: (completed: boolean) => void
+) => {
+  if (!isSpeechSupported() || !text.trim()) {
+    onEnd?.(true);
+    return;
+  }
+
+  const resolved = { ...DEFAULT_SPEECH, ...settings };
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = resolved.lang;
+  utterance.rate = resolved.rate;
+  if (resolved.voiceURI) {
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === resolved.voiceURI);
+    if (voice) utterance.voice = voice;
+  }
+
+  if (onEnd) {
+    utterance.onend = () => onEnd(true);
+    // Being cut off by other speech is not completion; any other failure is treated
+    // as done so callers waiting on speech (e.g. "before audio") are not stuck
+    utterance.onerror = (e) => onEnd(e.error !== 'interrupted' && e.error !== 'canceled');
+  }
+
+  // Only one thing should be spoken at a time
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const cancelSpeech = () => {
+  if (isSpeechSupported()) {
+    window.speechSynthesis.cancel();
+  }
+};
@@ -0,0 +1,136 @@
+/// <reference types="vite/client" />
+// Static export of a sound map, for kiosks without any server access.
+//
+// Produces a ZIP with one folder: `index.html`, holding the map and a small
+// player (staticPlayerRuntime.js), and the image and audio in `media/`. Nothing
+// in it touches the network. Proximity fading, spatial audio, haptics and
+// long-press descriptions are left to the full player.
+
+import runtime from './staticPlayerRuntime.js?raw';
+import { downloadProjectFiles, exportableProject } from './bundle';
+import type { BundleProgress } from './bundle';
+import { createZip } from './zip';
+import { DEFAULT_SPEECH } from './speech';
+import { listScenes } from '../supabase/functions/_shared/scenes';
+
+const README = `Open index.html in a web browser to play the sound map.
+
+Everything it needs is in this folder; no internet connection is used.
+
+Opened straight from disk, some browsers (e.g. Chrome) cannot pan audio left
+and right. To keep panning, serve the folder from any local web server, e.g.
+"python3 -m http.server" in this folder, then open http://localhost:8000.
+`;
+
+const STYLES = `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; background: #0f172a; color: #fff; font-family: system-ui, sans-serif; }
+[hidden] { display: none !important; }
+.screen { position: fixed; inset: 0; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 2rem; padding: 1.5rem; text-align: center; }
+h1 { font-size: 2.25rem; margin: 0 0 .5rem; }
+p { margin: 0; color: #94a3b8; }
+#start-button { width: 100%; max-width: 28rem; height: 3.5rem; border: 0; border-radius: 9999px; background: #4f46e5; color: #fff; font-size: 1.125rem; cursor: pointer; }
+#start-button:hover, #start-button:focus-visible { background: #4338ca; }
+#player { position: fixed; inset: 0; display: flex; align-items: center; justify-content: center; padding: 1rem; }
+#map { position: relative; touch-action: none; user-select: none; -webkit-user-select: none; }
+#map img { display: block; max-width: 100%; max-height: 90vh; pointer-events: none; }
+#zones { position: absolute; inset: 0; width: 100%; height: 100%; }
+#zones polygon { fill: transparent; stroke: transparent; stroke-width: .3; vector-effect: non-scaling-stroke; outline: none; transition: fill .2s; }
+#zones polygon.playing { fill: rgba(255, 255, 255, .15); stroke: rgba(255, 255, 255, .6); }
+#zones polygon:focus-visible { stroke: #facc15; stroke-width: 3; }
+#back-button { position: fixed; top: 1rem; right: 1rem; z-index: 1; padding: .5rem 1rem; border: 1px solid rgba(255, 255, 255, .2); border-radius: .375rem; background: rgba(0, 0, 0, .2); color: #fff; font-size: .875rem; cursor: pointer; }
+#back-button:hover, #back-button:focus-visible { background: rgba(0, 0, 0, .4); }
+.sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+`;
+
+const escapeHtml = (text: string) => {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+};
+
+const renderPage = (player: any) => {
+  const title = escapeHtml(player.title);
+  // "<" escaped so nothing in the map can close the script element
+  const data = JSON.stringify(player).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(player.speech.lang.split('-')[0])}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div id="start" class="screen">
+  <div>
+    <h1>${title}</h1>
+    <p>Interactive Sound Map</p>
+  </div>
+  <button id="start-button" type="button" autofocus>Start Experience</button>
+</div>
+<div id="player" hidden>
+  <button id="back-button" type="button" hidden></button>
+  <div id="map">
+    <img src="${escapeHtml(player.scenes[0].imageUrl ?? '')}" alt="" draggable="false" />
+    <svg id="zones" viewBox="0 0 100 100" preserveAspectRatio="none" tabindex="-1" role="group" aria-label="${title}"></svg>
+  </div>
+</div>
+<div id="announcer" class="sr-only" aria-live="polite"></div>
+<script id="project" type="application/json">${data}</script>
+<script>${runtime}</script>
+</body>
+</html>
+`;
+};
+
+// `folder` names the folder inside the ZIP
+export const exportStaticSite = async (
+  token: string,
+  project: any,
+  folder: string,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<Blob> => {
+  const source = exportableProject(project);
+  const files = await downloadProjectFiles(token, source, onProgress);
+  const fileUrl = (path?: string | null) => (path && files.get(path)?.name) || null;
+
+  // Only what the player reads, with relative links to the files
+  const player = {
+    title: source.title,
+    introAudioUrl: fileUrl(source.introAudioPath),
+    introAudioLoop: source.introAudioLoop,
+    maxVoices: source.maxVoices,
+    speech: { ...DEFAULT_SPEECH, ...source.speech },
+    // The first one is where the visitor starts
+    scenes: listScenes(source).map(scene => ({
+      id: scene.id,
+      name: scene.name,
+      imageUrl: fileUrl(scene.imagePath),
+      hotspots: scene.hotspots.map((h: any) => ({
+        id: h.id,
+        name: h.name,
+        points: h.points,
+        settings: h.settings,
+        audioUrl: fileUrl(h.audioPath),
+        spokenLabel: h.spokenLabel,
+        speechMode: h.speechMode,
+        overlapMode: h.overlapMode,
+        targetSceneId: h.targetSceneId,
+        transitionAudioUrl: fileUrl(h.transitionAudioPath),
+      })),
+      globalChannels: scene.globalChannels.map((c: any) => ({
+        id: c.id,
+        name: c.name,
+        settings: c.settings,
+        audioUrl: fileUrl(c.audioPath),
+      })),
+    })),
+  };
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: `${folder}/index.html`, data: encoder.encode(renderPage(player)) },
+    { name: `${folder}/README.txt`, data: encoder.encode(README) },
+    ...[...files.values()].map(({ name, data }) => ({ name: `${folder}/${name}`, data })),
+  ]);
+};
@@ -0,0 +1,475 @@
+// Standalone sound map player.
+//
+// staticExport.ts inlines this file into the exported index.html, next to the
+// map itself (<script id="project">) and the files in media/. It must work
+// opened straight from disk, so: no imports, no network, plain ES2017.
+//
+// Playback follows PlayerView: the intro plays until the visitor starts, then
+// the background channels; zones sound while a pointer or finger is on them,
+// layered, capped at `maxVoices`, with their spoken labels, fades and pan.
+// A zone leading to another scene is followed with a click, a double tap or
+// Enter; the Back button, Backspace and the browser's back return.
+
+(function () {
+  "use strict";
+
+  var DEFAULT_MAX_VOICES = 4;
+  var DOUBLE_TAP_MS = 400;
+  var TRANSITION_SETTINGS = { volume: 1, pan: 0, loop: false, fadeIn: 0, fadeOut: 0.3 };
+
+  var project = JSON.parse(document.getElementById("project").textContent);
+  var maxVoices = project.maxVoices || DEFAULT_MAX_VOICES;
+
+  var startScreen = document.getElementById("start");
+  var player = document.getElementById("player");
+  var mapArea = document.getElementById("map");
+  var mapImage = mapArea.querySelector("img");
+  var backButton = document.getElementById("back-button");
+  var zoneLayer = document.getElementById("zones");
+  var announcer = document.getElementById("announcer");
+
+  // ---------------------------------------------------------------------------
+  // AUDIO
+  // ---------------------------------------------------------------------------
+
+  // Chrome mutes Web Audio for files opened from file:// (each file counts as
+  // its own origin). There the element volume carries the fades, without pan.
+  var AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  var useWebAudio = location.protocol !== "file:" && !!AudioContextClass;
+  var context = null;
+  var voices = {}; // Sounding sources by zone or channel id
+
+  function getContext() {
+    if (!context) context = new AudioContextClass();
+    if (context.state === "suspended") context.resume();
+    return context;
+  }
+
+  function createVoice(url, settings) {
+    var audio = new Audio(url);
+    audio.loop = !!settings.loop;
+    var voice = { audio: audio, settings: settings, gain: null, ramp: null, stopTimer: null };
+
+    if (useWebAudio) {
+      var ctx = getContext();
+      var source = ctx.createMediaElementSource(audio);
+      voice.gain = ctx.createGain();
+      voice.gain.gain.value = 0;
+      source.connect(voice.gain);
+      if (ctx.createStereoPanner) {
+        var panner = ctx.createStereoPanner();
+        panner.pan.value = settings.pan || 0;
+        voice.gain.connect(panner);
+        panner.connect(ctx.destination);
+      } else {
+        voice.gain.connect(ctx.destination);
+      }
+    } else {
+      audio.volume = 0;
+    }
+    return voice;
+  }
+
+  function fadeTo(voice, target, seconds) {
+    var duration = Math.max(seconds || 0, 0.01);
+    if (voice.gain) {
+      var now = getContext().currentTime;
+      var param = voice.gain.gain;
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(target, now + duration);
+      return;
+    }
+
+    clearInterval(voice.ramp);
+    var from = voice.audio.volume;
+    var startedAt = Date.now();
+    voice.ramp = setInterval(function () {
+      var t = Math.min(1, (Date.now() - startedAt) / (duration * 1000));
+      voice.audio.volume = Math.max(0, Math.min(1, from + (target - from) * t));
+      if (t === 1) clearInterval(voice.ramp);
+    }, 30);
+  }
+
+  function play(id, url, settings) {
+    var existing = voices[id];
+    if (existing) {
+      // Rescue a source that is still fading out
+      if (existing.stopTimer) {
+        clearTimeout(existing.stopTimer);
+        existing.stopTimer = null;
+        fadeTo(existing, settings.volume, settings.fadeIn);
+      }
+      return;
+    }
+
+    var voice = createVoice(url, settings);
+    voices[id] = voice;
+    voice.audio.onended = function () {
+      if (!settings.loop && voices[id] === voice) delete voices[id];
+    };
+    fadeTo(voice, settings.volume, settings.fadeIn);
+    voice.audio.play().catch(function (err) {
+      console.error("Could not play " + url, err);
+    });
+  }
+
+  function stop(id, seconds) {
+    var voice = voices[id];
+    if (!voice || voice.stopTimer) return;
+
+    var duration = seconds === undefined ? voice.settings.fadeOut : seconds;
+    fadeTo(voice, 0, duration);
+    voice.stopTimer = setTimeout(function () {
+      voice.audio.pause();
+      clearInterval(voice.ramp);
+      if (voices[id] === voice) delete voices[id];
+    }, duration * 1000 + 100);
+  }
+
+  // ---------------------------------------------------------------------------
+  // SPEECH
+  // ---------------------------------------------------------------------------
+
+  var speech = project.speech || {};
+  var canSpeak = "speechSynthesis" in window;
+
+  function speak(text, onEnd) {
+    if (!canSpeak) {
+      onEnd();
+      return;
+    }
+    speechSynthesis.cancel();
+    var utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = speech.lang || document.documentElement.lang;
+    utterance.rate = speech.rate || 1;
+    var voice = speechSynthesis.getVoices().filter(function (v) {
+      return v.voiceURI === speech.voiceURI;
+    })[0];
+    if (voice) utterance.voice = voice;
+    utterance.onend = onEnd;
+    utterance.onerror = onEnd;
+    speechSynthesis.speak(utterance);
+  }
+
+  // ---------------------------------------------------------------------------
+  // ZONES
+  // ---------------------------------------------------------------------------
+
+  var scenes = project.scenes;  // The first one is where the visitor starts
+  var scene = scenes[0];
+  var zones = [];               // The scene's zones; later ones sit on top of earlier ones
+  var playing = [];             // Sounding zone ids, oldest first
+  var pointerZones = {};        // Zone ids under each pointer, topmost first
+  var speakingZone = null;
+
+  function isPointInPolygon(point, polygon) {
+    var inside = false;
+    for (var i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      var a = polygon[i];
+      var b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  // The topmost zone under the point, then each one beneath it for as long as
+  // the zones above mix with what is underneath
+  function audibleZonesAt(point) {
+    var audible = [];
+    for (var i = zones.length - 1; i >= 0; i--) {
+      if (!isPointInPolygon(point, zones[i].points)) continue;
+      audible.push(zones[i]);
+      if ((zones[i].overlapMode || "solo") === "solo") break;
+    }
+    return audible;
+  }
+
+  function isPlaying(id) {
+    return playing.indexOf(id) !== -1;
+  }
+
+  function setPlaying(ids) {
+    playing = ids;
+    zones.forEach(function (zone) {
+      zone.element.classList.toggle("playing", isPlaying(zone.id));
+    });
+  }
+
+  function stopVoice(id) {
+    stop(id);
+    if (speakingZone === id) {
+      if (canSpeak) speechSynthesis.cancel();
+      speakingZone = null;
+    }
+  }
+
+  function playZone(zone) {
+    var label = (zone.spokenLabel || "").trim();
+    var speechMode = label ? zone.speechMode || "before" : "off";
+    if (!zone.audioUrl && speechMode === "off") return;
+    if (isPlaying(zone.id)) return;
+
+    // The longest-sounding zones make room for the new one
+    var ids = playing.slice();
+    while (ids.length >= maxVoices) stopVoice(ids.shift());
+    setPlaying(ids.concat(zone.id));
+
+    if (speechMode === "off") {
+      play(zone.id, zone.audioUrl, zone.settings);
+      return;
+    }
+
+    speakingZone = zone.id;
+    speak(label, function () {
+      if (speechMode === "before" && zone.audioUrl && isPlaying(zone.id)) {
+        play(zone.id, zone.audioUrl, zone.settings);
+      }
+    });
+  }
+
+  function stopZone(id) {
+    if (!isPlaying(id)) return;
+    stopVoice(id);
+    setPlaying(playing.filter(function (z) { return z !== id; }));
+  }
+
+  function setPointerZones(pointer, ids) {
+    var previous = pointerZones[pointer] || [];
+    if (previous.join() === ids.join()) return;
+
+    if (ids.length > 0) pointerZones[pointer] = ids;
+    else delete pointerZones[pointer];
+
+    // Bottom-up, so the topmost zone is the newest voice and the last to be dropped
+    ids.slice().reverse().forEach(function (id) {
+      playZone(zoneById(id));
+    });
+
+    // A zone keeps sounding while any other pointer is still on it
+    var held = [];
+    Object.keys(pointerZones).forEach(function (key) {
+      held = held.concat(pointerZones[key]);
+    });
+    previous.forEach(function (id) {
+      if (held.indexOf(id) === -1) stopZone(id);
+    });
+  }
+
+  function zoneById(id) {
+    return zones.filter(function (zone) { return zone.id === id; })[0];
+  }
+
+  function mapPoint(clientX, clientY) {
+    var rect = mapArea.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: ((clientX - rect.left) / rect.width) * 100,
+      y: ((clientY - rect.top) / rect.height) * 100,
+    };
+  }
+
+  function zonesAt(clientX, clientY) {
+    var point = mapPoint(clientX, clientY);
+    return point ? audibleZonesAt(point).map(function (zone) { return zone.id; }) : [];
+  }
+
+  // The topmost audible zone at the point that leads to another scene
+  function sceneLinkAt(clientX, clientY) {
+    var point = mapPoint(clientX, clientY);
+    return point ? audibleZonesAt(point).filter(isSceneLink)[0] : undefined;
+  }
+
+  function isSceneLink(zone) {
+    return !!zone.targetSceneId && !!sceneById(zone.targetSceneId);
+  }
+
+  function stopAllZones() {
+    pointerZones = {};
+    playing.slice().forEach(stopVoice);
+    setPlaying([]);
+  }
+
+  function announce(message) {
+    announcer.textContent = announcer.textContent === message ? message + " " : message;
+  }
+
+  // ---------------------------------------------------------------------------
+  // SCENES
+  // ---------------------------------------------------------------------------
+
+  var SVG = "http://www.w3.org/2000/svg";
+
+  var visited = [];         // Scene ids visited before this one, newest last
+  var canPushState = true;  // Some browsers refuse history entries for files
+  var lastTap = null;
+
+  function sceneById(id) {
+    return scenes.filter(function (s) { return s.id === id; })[0];
+  }
+
+  function playChannels() {
+    scene.globalChannels.forEach(function (channel) {
+      if (channel.audioUrl) play(channel.id, channel.audioUrl, channel.settings);
+    });
+  }
+
+  function renderScene() {
+    mapImage.src = scene.imageUrl || "";
+    while (zoneLayer.firstChild) zoneLayer.removeChild(zoneLayer.firstChild);
+    zones = scene.hotspots;
+    zones.forEach(createZoneElement);
+
+    backButton.hidden = visited.length === 0;
+    if (visited.length > 0) {
+      backButton.textContent = "\u2190 Back to " + sceneById(visited[visited.length - 1]).name;
+    }
+  }
+
+  // Silences this scene, plays the transition and starts the next scene's channels
+  function enterScene(next, transitionUrl) {
+    stopAllZones();
+    scene.globalChannels.forEach(function (channel) { stop(channel.id); });
+    if (transitionUrl) play("transition-" + Date.now(), transitionUrl, TRANSITION_SETTINGS);
+    scene = next;
+    lastTap = null;
+    renderScene();
+    playChannels();
+    zoneLayer.focus();
+    announce(scene.name + ". " + zones.length + " zones.");
+  }
+
+  function followLink(zone) {
+    var next = sceneById(zone.targetSceneId);
+    if (!next) return;
+    if (canPushState) {
+      try {
+        history.pushState({ sceneId: next.id }, "");
+      } catch (err) {
+        canPushState = false;
+      }
+    }
+    visited.push(scene.id);
+    enterScene(next, zone.transitionAudioUrl);
+  }
+
+  function goBack() {
+    if (visited.length === 0) return;
+    if (canPushState) history.back();
+    else enterScene(sceneById(visited.pop()));
+  }
+
+  // The browser's back (and forward) buttons step through the scenes
+  window.addEventListener("popstate", function (e) {
+    var next = sceneById((e.state && e.state.sceneId) || scenes[0].id);
+    if (!next || next === scene || player.hidden) return;
+    if (next.id === visited[visited.length - 1]) visited.pop();
+    else visited.push(scene.id);
+    enterScene(next);
+  });
+
+  // ---------------------------------------------------------------------------
+  // SETUP
+  // ---------------------------------------------------------------------------
+
+  function createZoneElement(zone) {
+    var polygon = document.createElementNS(SVG, "polygon");
+    polygon.setAttribute("points", zone.points.map(function (p) { return p.x + "," + p.y; }).join(" "));
+    polygon.setAttribute("tabindex", "0");
+    polygon.setAttribute("role", "button");
+    polygon.setAttribute("aria-label", isSceneLink(zone)
+      ? (zone.name || "Zone") + ", press Enter to go to " + sceneById(zone.targetSceneId).name
+      : zone.name || "Zone");
+    polygon.addEventListener("keydown", function (e) {
+      if (e.key === "Enter" && isSceneLink(zone)) {
+        e.preventDefault();
+        followLink(zone);
+        return;
+      }
+      if (e.key !== "Enter" && e.key !== " ") return;
+      e.preventDefault();
+      if (isPlaying(zone.id)) {
+        delete pointerZones.keyboard;
+        stopZone(zone.id);
+        announce("Stopped " + (zone.name || "zone") + ".");
+      } else {
+        setPointerZones("keyboard", [zone.id]);
+        announce("Playing " + (zone.name || "zone") + ".");
+      }
+    });
+    zone.element = polygon;
+    zoneLayer.appendChild(polygon);
+  }
+
+  renderScene();
+
+  // Mouse hovers; touch and pen sound while pressed. Each finger is its own pointer.
+  mapArea.addEventListener("pointermove", function (e) {
+    if (e.pointerType === "mouse" || e.buttons || e.pressure > 0) {
+      setPointerZones(String(e.pointerId), zonesAt(e.clientX, e.clientY));
+    }
+  });
+  var lastPointerType = "mouse";
+  mapArea.addEventListener("pointerdown", function (e) {
+    lastPointerType = e.pointerType;
+    setPointerZones(String(e.pointerId), zonesAt(e.clientX, e.clientY));
+  });
+  ["pointerup", "pointercancel", "pointerleave"].forEach(function (type) {
+    mapArea.addEventListener(type, function (e) {
+      if (e.pointerType === "mouse" && type === "pointerup") return;
+      setPointerZones(String(e.pointerId), []);
+      if (type === "pointerup") handleTap(e);
+    });
+  });
+
+  // A click follows a scene link; a finger needs two taps, the first one plays it
+  mapArea.addEventListener("click", function (e) {
+    if (lastPointerType !== "mouse") return;
+    var link = sceneLinkAt(e.clientX, e.clientY);
+    if (link) followLink(link);
+  });
+
+  function handleTap(e) {
+    var link = sceneLinkAt(e.clientX, e.clientY);
+    if (link && lastTap && lastTap.zoneId === link.id && Date.now() - lastTap.time < DOUBLE_TAP_MS) {
+      followLink(link);
+    } else {
+      lastTap = link ? { zoneId: link.id, time: Date.now() } : null;
+    }
+  }
+
+  backButton.addEventListener("click", goBack);
+
+  document.addEventListener("keydown", function (e) {
+    if ((e.key === "Backspace" || (e.altKey && e.key === "ArrowLeft")) && visited.length > 0) {
+      e.preventDefault();
+      goBack();
+      return;
+    }
+    if (e.key !== "Escape" || playing.length === 0) return;
+    stopAllZones();
+    announce("Stopped.");
+  });
+
+  // The intro plays on the start screen, if the browser allows autoplay
+  var intro = null;
+  if (project.introAudioUrl) {
+    intro = new Audio(project.introAudioUrl);
+    intro.loop = !!project.introAudioLoop;
+    intro.play().catch(function () {});
+  }
+
+  document.getElementById("start-button").addEventListener("click", function () {
+    if (intro) intro.pause();
+    if (document.documentElement.requestFullscreen) {
+      document.documentElement.requestFullscreen().catch(function () {});
+    }
+
+    startScreen.hidden = true;
+    player.hidden = false;
+
+    playChannels();
+  });
+})();
@@ -0,0 +1,72 @@
+// Built-in starter templates.
+//
+// Each starter is a set of zones laid out for a common kind of map, without an
+// image or audio: the new project gets the zones, and the author uploads their
+// own floor plan and sounds. Templates saved by users live on the server (see
+// listTemplates in api.ts) and carry their files with them.
+
+import { ellipsePoints, rectanglePoints, type Point } from './geometry';
+
+export type StarterTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  hotspots: () => any[]; // Fresh zones for each new project
+};
+
+const COLORS = ['#4f46e5', '#0ea5e9', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6'];
+
+// Pan follows the zone's horizontal position, so the layout is audible too
+const zone = (name: string, color: string, points: Point[], settings: object = {}) => {
+  const center = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  return {
+    id: crypto.randomUUID(),
+    points,
+    audioFile: null,
+    audioUrl: null,
+    name,
+    color,
+    settings: { volume: 1, pan: Math.round((center / 50 - 1) * 10) / 10, loop: false, fadeIn: 0.5, fadeOut: 0.5, ...settings },
+    spokenLabel: name,
+    speechMode: 'before',
+    parentId: null,
+  };
+};
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  {
+    id: 'gallery-room',
+    name: 'Gallery Room',
+    description: 'One room with an exhibit on each wall and an entrance.',
+    hotspots: () => [
+      zone('North Wall', COLORS[0], rectanglePoints({ x: 15, y: 5 }, { x: 85, y: 20 })),
+      zone('East Wall', COLORS[1], rectanglePoints({ x: 80, y: 25 }, { x: 95, y: 75 })),
+      zone('South Wall', COLORS[2], rectanglePoints({ x: 15, y: 80 }, { x: 60, y: 95 })),
+      zone('West Wall', COLORS[3], rectanglePoints({ x: 5, y: 25 }, { x: 20, y: 75 })),
+      zone('Entrance', '#64748b', rectanglePoints({ x: 65, y: 80 }, { x: 85, y: 95 })),
+    ],
+  },
+  {
+    id: 'floor-plan',
+    name: 'Floor Plan',
+    description: 'Six rooms in two rows, for a building or a floor of a museum.',
+    hotspots: () => Array.from({ length: 6 }, (_, i) => {
+      const x = 5 + (i % 3) * 31;
+      const y = i < 3 ? 5 : 52;
+      return zone(`Room ${i + 1}`, COLORS[i], rectanglePoints({ x, y }, { x: x + 28, y: y + 43 }));
+    }),
+  },
+  {
+    id: 'trail',
+    name: 'Trail',
+    description: 'Five stops along a path, each with a looping sound that fades in and out.',
+    hotspots: () => [
+      { x: 12, y: 75 }, { x: 30, y: 45 }, { x: 50, y: 65 }, { x: 70, y: 35 }, { x: 88, y: 20 },
+    ].map((c, i) => zone(
+      `Stop ${i + 1}`,
+      COLORS[2],
+      ellipsePoints({ x: c.x - 8, y: c.y - 10 }, { x: c.x + 8, y: c.y + 10 }),
+      { loop: true, fadeIn: 1.5, fadeOut: 1.5 }
+    )),
+  },
+];